@@ -0,0 +1,81 @@
+// Compiles blog/*.md and the GitHub release notes snapshotted by
+// snapshot-github-stats.js into src/generated/blog.json, newest first.
+const fs = require('fs');
+const path = require('path');
+const { writeJson } = require('./lib/files');
+const { renderMarkdown, readMarkdownDir, slugify, stripTags } = require('./lib/markdown');
+
+const BLOG_DIR = path.join(__dirname, '..', 'blog');
+const RELEASES_FILE = path.join(__dirname, '..', 'src', 'generated', 'github-releases.json');
+const OUTPUT = path.join(__dirname, '..', 'src', 'generated', 'blog.json');
+const SUMMARY_LENGTH = 200;
+
+// ./other-post.md -> /blog/other-post, ../docs/faq.md#section -> /docs/faq#section
+const resolvePostLink = (href) => {
+  const post = href.match(/^(?:\.\/)?([\w-]+)\.md(#.*)?$/);
+  if (post) return `/blog/${post[1]}${post[2] || ''}`;
+  const doc = href.match(/^\.\.\/docs\/([\w-]+)\.md(#.*)?$/);
+  return doc ? `/docs/${doc[1]}${doc[2] || ''}` : href;
+};
+
+// First paragraph (or list item, for release notes) of the rendered body, as plain text
+const summarize = (html) => {
+  const block = html.match(/<(p|li)>([\s\S]*?)<\/\1>/);
+  const text = block ? stripTags(block[2]).replace(/\s+/g, ' ').trim() : '';
+  return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH - 1).trimEnd()}…` : text;
+};
+
+const readPosts = () =>
+  readMarkdownDir(BLOG_DIR).map(({ file, slug, data, content }) => {
+    if (!data.title || !data.date) {
+      throw new Error(`blog/${file} needs a "title" and a "date" in its frontmatter`);
+    }
+    const { html } = renderMarkdown(content, { resolveLink: resolvePostLink });
+    return {
+      slug,
+      title: data.title,
+      date: new Date(data.date).toISOString(),
+      author: data.author || 'Cua team',
+      tags: Array.isArray(data.tags) ? data.tags.map(String) : [],
+      summary: data.summary || summarize(html),
+      html,
+      kind: 'post',
+      url: null,
+    };
+  });
+
+// Each GitHub release becomes a changelog entry tagged "release" and the repo name
+const readReleases = () => {
+  const { repos } = JSON.parse(fs.readFileSync(RELEASES_FILE, 'utf8'));
+  return Object.entries(repos).flatMap(([repo, releases]) => {
+    const repoName = repo.split('/')[1];
+    return releases.map((release) => {
+      const { html } = renderMarkdown(release.body);
+      return {
+        slug: slugify(`${repoName}-${release.tag}`.replace(/\./g, '-')),
+        title: release.name === release.tag ? `${repoName} ${release.tag}` : release.name,
+        date: new Date(release.publishedAt).toISOString(),
+        author: release.author || 'Cua team',
+        tags: ['release', repoName],
+        summary: summarize(html),
+        html,
+        kind: 'release',
+        url: release.url,
+      };
+    });
+  });
+};
+
+const posts = [...readPosts(), ...readReleases()]
+  .sort((a, b) => b.date.localeCompare(a.date) || a.title.localeCompare(b.title));
+
+const slugs = new Set();
+for (const post of posts) {
+  if (slugs.has(post.slug)) {
+    throw new Error(`Two blog entries share the slug "${post.slug}"`);
+  }
+  slugs.add(post.slug);
+}
+
+writeJson(OUTPUT, posts);
+console.log(`Compiled ${posts.length} blog entries to ${path.relative(process.cwd(), OUTPUT)}`);
@@ -0,0 +1,62 @@
+// Validates community.yaml and compiles it into src/generated/community.json
+// for the community page.
+const fs = require('fs');
+const path = require('path');
+const yaml = require('js-yaml');
+const { bundleForNode } = require('./lib/bundle');
+const { writeJson } = require('./lib/files');
+
+const SOURCE = path.join(__dirname, '..', 'community.yaml');
+const OUTPUT = path.join(__dirname, '..', 'src', 'generated', 'community.json');
+
+const readEntries = (data, section, { allowTrajectory, exampleIds = [] }) => {
+  const entries = data[section] || [];
+  if (!Array.isArray(entries)) {
+    throw new Error(`community.yaml: "${section}" must be a list`);
+  }
+  return entries.map((entry, index) => {
+    const where = `community.yaml: ${section}[${index}]`;
+    for (const field of ['title', 'description', 'author']) {
+      if (typeof entry[field] !== 'string' || !entry[field].trim()) {
+        throw new Error(`${where} needs a "${field}"`);
+      }
+    }
+    const trajectory = allowTrajectory && entry.trajectory ? String(entry.trajectory) : null;
+    if (!entry.url && !trajectory) {
+      throw new Error(`${where} needs a "url"${allowTrajectory ? ' or a "trajectory"' : ''}`);
+    }
+    if (entry.url && !/^https?:\/\//.test(entry.url)) {
+      throw new Error(`${where}: "url" must be an http(s) link`);
+    }
+    if (trajectory && !exampleIds.includes(trajectory)) {
+      throw new Error(`${where}: "${trajectory}" is not an example in src/data/trajectories.ts`);
+    }
+    return {
+      title: entry.title.trim(),
+      description: entry.description.trim(),
+      url: entry.url || null,
+      trajectory,
+      author: entry.author.replace(/^@/, ''),
+      tags: Array.isArray(entry.tags) ? entry.tags.map(String) : [],
+    };
+  });
+};
+
+const main = async () => {
+  const { default: exampleTrajectories } = require(await bundleForNode('src/data/trajectories.ts'));
+  const data = yaml.load(fs.readFileSync(SOURCE, 'utf8')) || {};
+  const community = {
+    projects: readEntries(data, 'projects', { allowTrajectory: false }),
+    workflows: readEntries(data, 'workflows', {
+      allowTrajectory: true,
+      exampleIds: exampleTrajectories.map((example) => example.id),
+    }),
+  };
+  writeJson(OUTPUT, community);
+  console.log(`Compiled ${community.projects.length} projects and ${community.workflows.length} workflows`);
+};
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,33 @@
+// Compiles docs/*.md into src/generated/docs.json for the in-site docs section.
+const path = require('path');
+const { writeJson } = require('./lib/files');
+const { renderMarkdown, readMarkdownDir } = require('./lib/markdown');
+
+const DOCS_DIR = path.join(__dirname, '..', 'docs');
+const OUTPUT = path.join(__dirname, '..', 'src', 'generated', 'docs.json');
+
+// ./faq.md#section -> /docs/faq#section
+const resolveDocLink = (href) => {
+  const match = href.match(/^(?:\.\/)?([\w-]+)\.md(#.*)?$/);
+  return match ? `/docs/${match[1]}${match[2] || ''}` : href;
+};
+
+const docs = readMarkdownDir(DOCS_DIR)
+  .map(({ file, slug, data, content }) => {
+    if (!data.title) {
+      throw new Error(`docs/${file} is missing a "title" in its frontmatter`);
+    }
+    const { html, headings } = renderMarkdown(content, { resolveLink: resolveDocLink });
+    return {
+      slug,
+      title: data.title,
+      description: data.description || '',
+      order: typeof data.order === 'number' ? data.order : Number.MAX_SAFE_INTEGER,
+      html,
+      headings: headings.filter((heading) => heading.level === 2 || heading.level === 3),
+    };
+  })
+  .sort((a, b) => a.order - b.order || a.title.localeCompare(b.title));
+
+writeJson(OUTPUT, docs);
+console.log(`Compiled ${docs.length} docs to ${path.relative(process.cwd(), OUTPUT)}`);
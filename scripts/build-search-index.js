@@ -0,0 +1,20 @@
+// Writes public/search-index.json for the command palette from the site's pages,
+// products, docs sections, blog posts and images. Run after build-docs.js and
+// build-blog.js, since it reads their output.
+const path = require('path');
+const { bundleForNode } = require('./lib/bundle');
+const { writeJson } = require('./lib/files');
+
+const OUTPUT = path.join(__dirname, '..', 'public', 'search-index.json');
+
+const main = async () => {
+  const { getSearchDocuments } = require(await bundleForNode('src/data/searchDocuments.ts'));
+  const documents = getSearchDocuments();
+  writeJson(OUTPUT, documents);
+  console.log(`Indexed ${documents.length} search documents to ${path.relative(process.cwd(), OUTPUT)}`);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
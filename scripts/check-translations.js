@@ -0,0 +1,54 @@
+// Compares every locale catalog in src/i18n against en.json and fails the build
+// when a key is missing or a message drops or invents a {placeholder}.
+const fs = require('fs');
+const path = require('path');
+
+const I18N_DIR = path.join(__dirname, '..', 'src', 'i18n');
+const SOURCE_LOCALE = 'en';
+
+const readCatalog = (locale) =>
+  JSON.parse(fs.readFileSync(path.join(I18N_DIR, `${locale}.json`), 'utf8'));
+
+const placeholders = (message) =>
+  [...message.matchAll(/\{(\w+)\}/g)].map((match) => match[1]).sort().join(',');
+
+/** Problems with one catalog compared to the source catalog, as "<locale>: ..." lines. */
+const checkCatalog = (locale, source, catalog) => {
+  const problems = [];
+  for (const [key, message] of Object.entries(source)) {
+    if (typeof catalog[key] !== 'string') {
+      problems.push(`${locale}: missing "${key}"`);
+    } else if (placeholders(catalog[key]) !== placeholders(message)) {
+      problems.push(`${locale}: "${key}" has placeholders {${placeholders(catalog[key])}}, expected {${placeholders(message)}}`);
+    }
+  }
+  for (const key of Object.keys(catalog)) {
+    if (!(key in source)) {
+      problems.push(`${locale}: unknown key "${key}"`);
+    }
+  }
+  return problems;
+};
+
+const main = () => {
+  const source = readCatalog(SOURCE_LOCALE);
+  const locales = fs.readdirSync(I18N_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => path.basename(file, '.json'))
+    .filter((locale) => locale !== SOURCE_LOCALE);
+
+  const problems = locales.flatMap((locale) => checkCatalog(locale, source, readCatalog(locale)));
+
+  if (problems.length > 0) {
+    console.error(problems.join('\n'));
+    console.error(`Found ${problems.length} translation problem(s)`);
+    process.exit(1);
+  }
+  console.log(`Checked ${locales.length} locale(s) against ${SOURCE_LOCALE}.json`);
+};
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = { checkCatalog };
@@ -0,0 +1,28 @@
+const path = require('path');
+const esbuild = require('esbuild');
+
+const ROOT = path.join(__dirname, '..', '..');
+const CACHE_DIR = path.join(ROOT, 'node_modules', '.cache', 'site-scripts');
+
+// Bundles a TypeScript entry from src/ into a CommonJS module the build scripts can
+// require, so they reuse the site's own data and rendering code. Returns its path.
+const bundleForNode = async (entry) => {
+  const outfile = path.join(CACHE_DIR, `${path.basename(entry, path.extname(entry))}.js`);
+  await esbuild.build({
+    entryPoints: [path.join(ROOT, entry)],
+    outfile,
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    jsx: 'automatic',
+    // React must resolve to the same copy react-dom/server uses; everything else
+    // (e.g. lucide-react, whose CJS build does not load in Node) is bundled
+    external: ['react', 'react-dom', 'react-router-dom'],
+    loader: { '.css': 'empty', '.svg': 'empty' },
+    define: { 'process.env.NODE_ENV': '"production"' },
+    logLevel: 'warning',
+  });
+  return outfile;
+};
+
+module.exports = { bundleForNode };
@@ -0,0 +1,70 @@
+// Atom and RSS 2.0 feeds for the compiled blog entries (src/generated/blog.json).
+const { escapeHtml } = require('./markdown');
+
+const FEED_TITLE = 'Cua Blog';
+const FEED_DESCRIPTION = 'Release notes and progress updates on Lume, Computer and Agent.';
+
+// Feed readers resolve relative links against the feed, not the post
+const absolutizeLinks = (html, siteUrl) => html.replace(/(href|src)="\//g, `$1="${siteUrl}/`);
+
+const postUrl = (post, siteUrl) => `${siteUrl}/blog/${post.slug}`;
+
+const renderAtom = (posts, siteUrl) => {
+  const updated = posts.length > 0 ? posts[0].date : new Date().toISOString();
+  const entries = posts.map((post) => [
+    '  <entry>',
+    `    <title>${escapeHtml(post.title)}</title>`,
+    `    <link href="${postUrl(post, siteUrl)}"/>`,
+    `    <id>${postUrl(post, siteUrl)}</id>`,
+    `    <published>${post.date}</published>`,
+    `    <updated>${post.date}</updated>`,
+    `    <author><name>${escapeHtml(post.author)}</name></author>`,
+    ...post.tags.map((tag) => `    <category term="${escapeHtml(tag)}"/>`),
+    `    <summary>${escapeHtml(post.summary)}</summary>`,
+    `    <content type="html">${escapeHtml(absolutizeLinks(post.html, siteUrl))}</content>`,
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${FEED_TITLE}</title>`,
+    `  <subtitle>${FEED_DESCRIPTION}</subtitle>`,
+    `  <link href="${siteUrl}/blog"/>`,
+    `  <link rel="self" href="${siteUrl}/atom.xml"/>`,
+    `  <id>${siteUrl}/blog</id>`,
+    `  <updated>${updated}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+};
+
+const renderRss = (posts, siteUrl) => {
+  const items = posts.map((post) => [
+    '    <item>',
+    `      <title>${escapeHtml(post.title)}</title>`,
+    `      <link>${postUrl(post, siteUrl)}</link>`,
+    `      <guid isPermaLink="true">${postUrl(post, siteUrl)}</guid>`,
+    `      <pubDate>${new Date(post.date).toUTCString()}</pubDate>`,
+    ...post.tags.map((tag) => `      <category>${escapeHtml(tag)}</category>`),
+    `      <description>${escapeHtml(absolutizeLinks(post.html, siteUrl))}</description>`,
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${FEED_TITLE}</title>`,
+    `    <link>${siteUrl}/blog</link>`,
+    `    <description>${FEED_DESCRIPTION}</description>`,
+    `    <atom:link href="${siteUrl}/rss.xml" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+};
+
+module.exports = { renderAtom, renderRss };
@@ -0,0 +1,10 @@
+const fs = require('fs');
+const path = require('path');
+
+// Writes pretty-printed JSON, creating the parent directory if needed
+const writeJson = (file, value) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(value, null, 2)}\n`);
+};
+
+module.exports = { writeJson };
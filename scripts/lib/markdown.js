@@ -0,0 +1,88 @@
+// Shared markdown pipeline for the build scripts. Produces HTML with heading
+// anchors and highlight.js markup, plus the heading list for tables of contents.
+const fs = require('fs');
+const path = require('path');
+const matter = require('gray-matter');
+const hljs = require('highlight.js');
+const { Marked } = require('marked');
+
+const escapeHtml = (value) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const slugify = (value) =>
+  value
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, '')
+    .replace(/\s+/g, '-');
+
+// Converts rendered inline HTML back to plain text
+const stripTags = (value) =>
+  value
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#39;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+// Renders a markdown body. `resolveLink` may rewrite relative hrefs (e.g. ./faq.md)
+// to site routes.
+const renderMarkdown = (source, { resolveLink = (href) => href } = {}) => {
+  const headings = [];
+  const seenIds = new Map();
+
+  const marked = new Marked({
+    gfm: true,
+    renderer: {
+      heading(text, level) {
+        const plainText = stripTags(text);
+        const base = slugify(plainText) || 'section';
+        const count = seenIds.get(base) || 0;
+        seenIds.set(base, count + 1);
+        const id = count ? `${base}-${count}` : base;
+        headings.push({ id, text: plainText, level });
+        return `<h${level} id="${id}"><a class="anchor" href="#${id}" aria-hidden="true">#</a>${text}</h${level}>\n`;
+      },
+      code(code, infostring) {
+        const lang = (infostring || '').trim().split(/\s+/)[0];
+        const highlighted = lang && hljs.getLanguage(lang)
+          ? hljs.highlight(code, { language: lang }).value
+          : escapeHtml(code);
+        const langClass = lang ? ` language-${escapeHtml(lang)}` : '';
+        return `<pre data-lang="${escapeHtml(lang)}"><code class="hljs${langClass}">${highlighted}</code></pre>\n`;
+      },
+      link(href, title, text) {
+        const resolved = resolveLink(href || '');
+        const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+        const external = /^https?:\/\//.test(resolved) ? ' target="_blank" rel="noopener noreferrer"' : '';
+        return `<a href="${escapeHtml(resolved)}"${titleAttr}${external}>${text}</a>`;
+      },
+    },
+  });
+
+  return { html: marked.parse(source), headings };
+};
+
+// Reads every .md file in a directory and returns its frontmatter and body.
+const readMarkdownDir = (dir) =>
+  fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.md'))
+    .sort()
+    .map((file) => {
+      const { data, content } = matter(fs.readFileSync(path.join(dir, file), 'utf8'));
+      return { file, slug: file.replace(/\.md$/, ''), data, content };
+    });
+
+module.exports = {
+  escapeHtml,
+  slugify,
+  stripTags,
+  renderMarkdown,
+  readMarkdownDir,
+};
@@ -0,0 +1,99 @@
+// Renders every route to static HTML after `react-scripts build`, so crawlers and
+// link unfurlers see real content and per-page meta tags. The client hydrates it.
+// Also writes sitemap.xml, the blog's Atom and RSS feeds, and the files the
+// service worker caches for offline use: shell.html (the unrendered template,
+// which can render any route client-side) and offline-pages.json.
+const fs = require('fs');
+const path = require('path');
+const { bundleForNode } = require('./lib/bundle');
+const { renderAtom, renderRss } = require('./lib/feed');
+const { escapeHtml } = require('./lib/markdown');
+
+const ROOT = path.join(__dirname, '..');
+const BUILD_DIR = path.join(ROOT, 'build');
+const BLOG_POSTS = path.join(ROOT, 'src', 'generated', 'blog.json');
+
+// Drops the template's static SEO tags; each page gets its own
+const stripMetaTags = (html) =>
+  html
+    .replace(/<title>[\s\S]*?<\/title>/, '')
+    .replace(/<meta (?:name|property)="(?:description|og:[^"]*|twitter:[^"]*)"[^>]*>/g, '')
+    .replace(/<link rel="canonical"[^>]*>/g, '');
+
+const renderHead = (meta, siteUrl) => {
+  const url = `${siteUrl}${meta.path === '/' ? '/' : meta.path}`;
+  const title = escapeHtml(meta.title);
+  const description = escapeHtml(meta.description);
+  return [
+    `<title>${title}</title>`,
+    `<meta name="description" content="${description}"/>`,
+    `<link rel="canonical" href="${url}"/>`,
+    `<meta property="og:type" content="website"/>`,
+    `<meta property="og:site_name" content="Cua"/>`,
+    `<meta property="og:title" content="${title}"/>`,
+    `<meta property="og:description" content="${description}"/>`,
+    `<meta property="og:url" content="${url}"/>`,
+    `<meta property="og:image" content="${meta.image}"/>`,
+    `<meta name="twitter:card" content="summary"/>`,
+    `<meta name="twitter:site" content="@trycua"/>`,
+    `<meta name="twitter:title" content="${title}"/>`,
+    `<meta name="twitter:description" content="${description}"/>`,
+    `<meta name="twitter:image" content="${meta.image}"/>`,
+    ...meta.alternates.map((alternate) =>
+      `<link rel="alternate" hreflang="${alternate.locale}" href="${siteUrl}${alternate.path}"/>`
+    ),
+    // LOCALES lists the unprefixed default locale first
+    `<link rel="alternate" hreflang="x-default" href="${siteUrl}${meta.alternates[0].path}"/>`,
+  ].join('');
+};
+
+const outputFileFor = (route) =>
+  route === '/'
+    ? path.join(BUILD_DIR, 'index.html')
+    : path.join(BUILD_DIR, route.slice(1), 'index.html');
+
+const renderSitemap = (routes, siteUrl) => {
+  const lastmod = new Date().toISOString().slice(0, 10);
+  const urls = routes
+    .map((route) => `  <url>\n    <loc>${siteUrl}${route}</loc>\n    <lastmod>${lastmod}</lastmod>\n  </url>`)
+    .join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls}\n</urlset>\n`;
+};
+
+const main = async () => {
+  const serverBundle = await bundleForNode('src/prerender.tsx');
+  const { render, getOfflineRoutes, getPageMeta, getPrerenderRoutes, SITE_URL } = require(serverBundle);
+
+  const shell = fs.readFileSync(path.join(BUILD_DIR, 'index.html'), 'utf8');
+  fs.writeFileSync(path.join(BUILD_DIR, 'shell.html'), shell);
+  fs.writeFileSync(path.join(BUILD_DIR, 'offline-pages.json'), JSON.stringify(getOfflineRoutes()));
+
+  const template = stripMetaTags(shell);
+  if (!template.includes('<div id="root"></div>')) {
+    throw new Error('build/index.html has no empty #root to render into');
+  }
+
+  const routes = getPrerenderRoutes();
+  for (const route of routes) {
+    const meta = getPageMeta(route);
+    const html = template
+      .replace(/<html lang="[^"]*"/, `<html lang="${meta.locale}"`)
+      .replace('</head>', `${renderHead(meta, SITE_URL)}</head>`)
+      .replace('<div id="root"></div>', `<div id="root">${render(route)}</div>`);
+    const file = outputFileFor(route);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, html);
+  }
+
+  fs.writeFileSync(path.join(BUILD_DIR, 'sitemap.xml'), renderSitemap(routes, SITE_URL));
+
+  const posts = JSON.parse(fs.readFileSync(BLOG_POSTS, 'utf8'));
+  fs.writeFileSync(path.join(BUILD_DIR, 'atom.xml'), renderAtom(posts, SITE_URL));
+  fs.writeFileSync(path.join(BUILD_DIR, 'rss.xml'), renderRss(posts, SITE_URL));
+  console.log(`Prerendered ${routes.length} routes, sitemap.xml and ${posts.length} feed entries`);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,147 @@
+// Snapshots the contributors of every public, non-fork trycua repo into
+// src/generated/github-contributors.json for the community page, which never
+// calls GitHub at runtime. The checked-in src/data/github-contributors.json
+// seeds it, so offline builds still list contributors; repos that fail to fetch
+// keep their seeded entry. --update-seed refreshes the checked-in copy instead;
+// --offline skips GitHub and only copies the seed (for type-checks and tests).
+//
+// --fixture <file> answers API requests from recorded responses (see
+// scripts/fixtures/github-contributors.json) and prints the snapshot instead of
+// writing it:
+//   node scripts/snapshot-contributors.js --fixture scripts/fixtures/github-contributors.json
+const fs = require('fs');
+const path = require('path');
+const { writeJson } = require('./lib/files');
+
+const SEED = path.join(__dirname, '..', 'src', 'data', 'github-contributors.json');
+const OUTPUT = path.join(__dirname, '..', 'src', 'generated', 'github-contributors.json');
+const ORG = 'trycua';
+const API_ROOT = 'https://api.github.com';
+// The contributors endpoint returns the top contributors first; one page is enough
+const PER_PAGE = 100;
+
+const headers = {
+  Accept: 'application/vnd.github.v3+json',
+  ...(process.env.GITHUB_TOKEN && { Authorization: `token ${process.env.GITHUB_TOKEN}` }),
+};
+
+// Turns a fetch implementation into a requester: API path in, parsed JSON out
+const createRequester = (fetchImpl = fetch) => async (requestPath) => {
+  const response = await fetchImpl(`${API_ROOT}${requestPath}`, { headers });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  // 204: the repo has no commits yet
+  return response.status === 204 ? [] : response.json();
+};
+
+// Stands in for fetch with responses recorded as { "<path>": { status, body } };
+// unrecorded paths are 404s
+const createFixtureFetch = (responses) => async (url) => {
+  const recorded = responses[url.slice(API_ROOT.length)];
+  if (!recorded) {
+    return { ok: false, status: 404, statusText: 'Not Found' };
+  }
+  return {
+    ok: recorded.status >= 200 && recorded.status < 300,
+    status: recorded.status,
+    statusText: recorded.statusText || '',
+    json: async () => recorded.body,
+  };
+};
+
+const listRepos = async (request) => {
+  const repos = await request(`/orgs/${ORG}/repos?type=public&per_page=${PER_PAGE}`);
+  return repos
+    .filter((repo) => !repo.fork && !repo.archived)
+    .map((repo) => repo.full_name)
+    .sort();
+};
+
+const fetchContributors = async (request, repo) => {
+  const contributors = await request(`/repos/${repo}/contributors?per_page=${PER_PAGE}`);
+  return contributors
+    .filter((user) => user.type !== 'Bot')
+    .map((user) => ({
+      login: user.login,
+      avatarUrl: user.avatar_url,
+      profileUrl: user.html_url,
+      contributions: user.contributions,
+    }));
+};
+
+const readSnapshot = (file) => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+/**
+ * Fetches contributors for every repo on top of `previous` (nothing, when request
+ * is null) and writes the result to `output` (or returns it only, when output is
+ * null). Returns the snapshot.
+ */
+const main = async ({
+  request = createRequester(),
+  previous = readSnapshot(SEED),
+  output = OUTPUT,
+  log = console.log,
+} = {}) => {
+  const snapshot = { generatedAt: previous.generatedAt, repos: { ...previous.repos } };
+
+  let repos = [];
+  try {
+    repos = request ? await listRepos(request) : [];
+  } catch (error) {
+    console.warn(`Could not list ${ORG} repos, keeping previous contributors: ${error.message}`);
+  }
+
+  let updated = 0;
+  for (const repo of repos) {
+    try {
+      snapshot.repos[repo] = await fetchContributors(request, repo);
+      updated += 1;
+    } catch (error) {
+      console.warn(`Could not snapshot contributors for ${repo}, keeping previous data: ${error.message}`);
+    }
+  }
+
+  if (updated > 0) {
+    snapshot.generatedAt = new Date().toISOString();
+  }
+  // Written even when nothing updated, so the seed reaches src/generated offline
+  if (output) {
+    writeJson(output, snapshot);
+  }
+  log(`Snapshotted contributors for ${updated}/${repos.length} repos`);
+  return snapshot;
+};
+
+if (require.main === module) {
+  const fixtureIndex = process.argv.indexOf('--fixture');
+  const options = process.argv.includes('--update-seed') ? { output: SEED } : {};
+  if (process.argv.includes('--offline')) {
+    options.request = null;
+  }
+  if (fixtureIndex !== -1) {
+    const fixture = process.argv[fixtureIndex + 1];
+    if (!fixture) {
+      console.error('--fixture needs a file');
+      process.exit(1);
+    }
+    options.request = createRequester(createFixtureFetch(readSnapshot(fixture)));
+    options.previous = { generatedAt: null, repos: {} };
+    options.output = null;
+    // stdout carries the snapshot, so progress goes to stderr
+    options.log = console.error;
+  }
+
+  main(options)
+    .then((snapshot) => {
+      if (options.output === null) {
+        console.log(JSON.stringify(snapshot, null, 2));
+      }
+    })
+    .catch((error) => {
+      console.error(error.message);
+      process.exit(1);
+    });
+}
+
+module.exports = { createRequester, createFixtureFetch, listRepos, fetchContributors, main };
@@ -0,0 +1,104 @@
+// Snapshots stars, forks, latest release and last push for the tracked repos into
+// src/generated/github-snapshot.json. The site falls back to it when the GitHub API
+// is unreachable or rate limited. Recent release notes go to
+// src/generated/github-releases.json for the changelog. The checked-in copies in
+// src/data seed both, so offline builds still have data; repos that fail to fetch
+// keep their seeded entry. --update-seed refreshes the checked-in copies instead;
+// --offline skips GitHub and only copies the seeds (for type-checks and tests).
+const fs = require('fs');
+const path = require('path');
+const { writeJson } = require('./lib/files');
+
+const REPOS_FILE = path.join(__dirname, '..', 'src', 'data', 'github-repos.json');
+const SEED = path.join(__dirname, '..', 'src', 'data', 'github-snapshot.json');
+const RELEASES_SEED = path.join(__dirname, '..', 'src', 'data', 'github-releases.json');
+const GENERATED_DIR = path.join(__dirname, '..', 'src', 'generated');
+const UPDATE_SEED = process.argv.includes('--update-seed');
+const OFFLINE = process.argv.includes('--offline');
+const OUTPUT = UPDATE_SEED ? SEED : path.join(GENERATED_DIR, 'github-snapshot.json');
+const RELEASES_OUTPUT = UPDATE_SEED ? RELEASES_SEED : path.join(GENERATED_DIR, 'github-releases.json');
+const RELEASES_PER_REPO = 10;
+const API_ROOT = 'https://api.github.com/repos';
+
+const headers = {
+  Accept: 'application/vnd.github.v3+json',
+  ...(process.env.GITHUB_TOKEN && { Authorization: `token ${process.env.GITHUB_TOKEN}` }),
+};
+
+const fetchRepoStats = async (repo) => {
+  const [repoResponse, releaseResponse] = await Promise.all([
+    fetch(`${API_ROOT}/${repo}`, { headers }),
+    fetch(`${API_ROOT}/${repo}/releases/latest`, { headers }),
+  ]);
+  if (!repoResponse.ok) {
+    throw new Error(`${repoResponse.status} ${repoResponse.statusText}`);
+  }
+  const data = await repoResponse.json();
+  const release = releaseResponse.ok ? await releaseResponse.json() : null;
+  return {
+    repo,
+    stars: data.stargazers_count,
+    forks: data.forks_count,
+    latestRelease: release ? release.tag_name : null,
+    lastCommit: data.pushed_at || null,
+  };
+};
+
+const fetchReleases = async (repo) => {
+  const response = await fetch(`${API_ROOT}/${repo}/releases?per_page=${RELEASES_PER_REPO}`, { headers });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  const releases = await response.json();
+  return releases
+    .filter((release) => !release.draft && !release.prerelease)
+    .map((release) => ({
+      tag: release.tag_name,
+      name: release.name || release.tag_name,
+      publishedAt: release.published_at,
+      url: release.html_url,
+      author: release.author ? release.author.login : null,
+      body: release.body || '',
+    }));
+};
+
+const main = async () => {
+  const repos = JSON.parse(fs.readFileSync(REPOS_FILE, 'utf8'));
+  const previous = JSON.parse(fs.readFileSync(SEED, 'utf8'));
+  const snapshot = { generatedAt: previous.generatedAt, repos: { ...previous.repos } };
+  const previousReleases = JSON.parse(fs.readFileSync(RELEASES_SEED, 'utf8'));
+  const releases = { generatedAt: previousReleases.generatedAt, repos: { ...previousReleases.repos } };
+  let updated = 0;
+  let releasesUpdated = 0;
+
+  for (const repo of OFFLINE ? [] : repos) {
+    try {
+      snapshot.repos[repo] = await fetchRepoStats(repo);
+      updated += 1;
+    } catch (error) {
+      console.warn(`Could not snapshot ${repo}, keeping previous data: ${error.message}`);
+    }
+    try {
+      releases.repos[repo] = await fetchReleases(repo);
+      releasesUpdated += 1;
+    } catch (error) {
+      console.warn(`Could not snapshot releases for ${repo}, keeping previous data: ${error.message}`);
+    }
+  }
+
+  if (updated > 0) {
+    snapshot.generatedAt = new Date().toISOString();
+  }
+  if (releasesUpdated > 0) {
+    releases.generatedAt = new Date().toISOString();
+  }
+  // Written even when nothing updated, so the seeds reach src/generated offline
+  writeJson(OUTPUT, snapshot);
+  writeJson(RELEASES_OUTPUT, releases);
+  console.log(`Snapshotted GitHub stats for ${updated}/${repos.length} repos and releases for ${releasesUpdated}/${repos.length}`);
+};
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -1,8 +1,11 @@
+import { BrowserRouter } from 'react-router-dom';
 import Root from './Root';
 
 function App() {
   return (
-    <Root />
+    <BrowserRouter>
+      <Root />
+    </BrowserRouter>
   );
 }
 
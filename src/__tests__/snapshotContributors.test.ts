@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const { createFixtureFetch, createRequester, fetchContributors, listRepos, main } = require('../../scripts/snapshot-contributors');
+
+const fixture = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '..', '..', 'scripts', 'fixtures', 'github-contributors.json'), 'utf8')
+);
+const request = createRequester(createFixtureFetch(fixture));
+const quiet = () => {};
+
+describe('snapshot-contributors', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('lists public repos without forks or archived ones', async () => {
+    await expect(listRepos(request)).resolves.toEqual(['trycua/cua', 'trycua/empty', 'trycua/lume', 'trycua/missing']);
+  });
+
+  it('drops bots from contributor lists', async () => {
+    const contributors = await fetchContributors(request, 'trycua/cua');
+    expect(contributors.map((contributor: { login: string }) => contributor.login)).toEqual([
+      'ada-example',
+      'grace-example',
+    ]);
+    expect(contributors[0]).toEqual({
+      login: 'ada-example',
+      avatarUrl: 'https://avatars.githubusercontent.com/u/1001?v=4',
+      profileUrl: 'https://github.com/ada-example',
+      contributions: 120,
+    });
+  });
+
+  it('treats a 204 (repo without commits) as no contributors', async () => {
+    await expect(fetchContributors(request, 'trycua/empty')).resolves.toEqual([]);
+  });
+
+  it('keeps the previous entry of a repo that fails to fetch', async () => {
+    const previousMissing = [{ login: 'old', avatarUrl: '', profileUrl: '', contributions: 1 }];
+    const snapshot = await main({
+      request,
+      previous: { generatedAt: '2025-01-01T00:00:00.000Z', repos: { 'trycua/missing': previousMissing } },
+      output: null,
+      log: quiet,
+    });
+
+    expect(Object.keys(snapshot.repos).sort()).toEqual(['trycua/cua', 'trycua/empty', 'trycua/lume', 'trycua/missing']);
+    expect(snapshot.repos['trycua/missing']).toEqual(previousMissing);
+    expect(snapshot.generatedAt).not.toBe('2025-01-01T00:00:00.000Z');
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('trycua/missing'));
+  });
+
+  it('writes the previous snapshot unchanged when GitHub is unreachable', async () => {
+    const output = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'contributors-')), 'snapshot.json');
+    const previous = { generatedAt: '2025-01-01T00:00:00.000Z', repos: { 'trycua/cua': [] } };
+    const offline = createRequester(async () => {
+      throw new Error('fetch failed');
+    });
+
+    await main({ request: offline, previous, output, log: quiet });
+    expect(JSON.parse(fs.readFileSync(output, 'utf8'))).toEqual(previous);
+  });
+});
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Check, Copy } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+export interface SnippetTab {
+  label: string;
+  code: string;
+}
+
+interface CodeSnippetProps {
+  tabs: SnippetTab[];
+  onCopy?: (tab: SnippetTab) => void;
+}
+
+// How long the copied / failed feedback stays up
+const COPY_FEEDBACK_MS = 2000;
+
+// Shell snippet with optional tabs and a copy-to-clipboard button
+const CodeSnippet = ({ tabs, onCopy }: CodeSnippetProps) => {
+  const { t } = useI18n();
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isCopied, setIsCopied] = useState(false);
+  // Reason the last copy failed (clipboard blocked or unavailable), if it did
+  const [copyError, setCopyError] = useState<string | null>(null);
+  const activeTab = tabs[activeIndex] ?? tabs[0];
+
+  useEffect(() => {
+    if (!isCopied && copyError === null) return;
+    const timeout = setTimeout(() => {
+      setIsCopied(false);
+      setCopyError(null);
+    }, COPY_FEEDBACK_MS);
+    return () => clearTimeout(timeout);
+  }, [isCopied, copyError]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(activeTab.code);
+      setCopyError(null);
+      setIsCopied(true);
+      onCopy?.(activeTab);
+    } catch (error: unknown) {
+      setIsCopied(false);
+      setCopyError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const label = isCopied ? t('snippet.copied') : copyError !== null ? t('snippet.copyFailed') : t('snippet.copy');
+
+  return (
+    <div className="rounded-xl border border-line overflow-hidden text-sm">
+      <div className="flex items-center justify-between gap-2 px-2 border-b border-line bg-gray-50 dark:bg-neutral-900">
+        <div role={tabs.length > 1 ? 'tablist' : undefined} className="flex">
+          {tabs.length > 1 && tabs.map((tab, index) => (
+            <button
+              key={tab.label}
+              role="tab"
+              aria-selected={index === activeIndex}
+              onClick={() => setActiveIndex(index)}
+              className={`px-3 py-2 border-b-2 -mb-px transition-colors ${
+                index === activeIndex
+                  ? 'border-fg text-fg'
+                  : 'border-transparent text-fg-muted hover:text-link-hover'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleCopy}
+          aria-label={isCopied || copyError !== null ? label : t('snippet.copyLabel')}
+          title={copyError ?? undefined}
+          className={`inline-flex items-center gap-1 px-2 py-2 transition-colors hover:text-link-hover ${
+            copyError !== null ? 'text-red-600 dark:text-red-400' : 'text-fg-muted'
+          }`}
+        >
+          {isCopied ? <Check size={14} /> : copyError !== null ? <AlertTriangle size={14} /> : <Copy size={14} />}
+          <span role={copyError !== null ? 'alert' : undefined}>{label}</span>
+        </button>
+      </div>
+      <pre className="p-4 overflow-x-auto bg-gray-50 dark:bg-neutral-900 text-gray-800 dark:text-gray-200">
+        <code>{activeTab.code}</code>
+      </pre>
+    </div>
+  );
+};
+
+export default CodeSnippet;
@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BookOpen, Box, Copy, FileText, HardDrive, LucideIcon, Newspaper, Play, Search, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+import { themeModeIcons, themeModeLabelKeys, useTheme } from './ThemeProvider';
+import { Modal } from './ui';
+import demos from '../data/demos';
+import installSteps from '../data/installSteps';
+import { track } from '../services/analytics';
+import { SearchDocument, SearchDocumentType, loadSearchIndex, searchDocuments, tokenize } from '../services/search';
+
+interface CommandPaletteProps {
+  onClose: () => void;
+}
+
+interface PaletteItem {
+  id: string;
+  type: SearchDocumentType | 'action';
+  label: string;
+  context?: string;
+  icon: LucideIcon;
+  // Preview text; results show the matching excerpt
+  preview?: string;
+  url?: string;
+  // Whether the palette stays open after running, e.g. to show feedback
+  keepOpen?: boolean;
+  run: () => void;
+}
+
+const typeIcons: Record<SearchDocumentType, LucideIcon> = {
+  page: FileText,
+  product: Box,
+  doc: BookOpen,
+  post: Newspaper,
+  image: HardDrive,
+};
+
+const INSTALL_COMMAND = installSteps[0].tabs[0].code;
+
+/**
+ * ⌘K / Ctrl-K command palette: fuzzy search over public/search-index.json plus
+ * quick actions. Render it only while open; the index loads on first open.
+ */
+const CommandPalette = ({ onClose }: CommandPaletteProps) => {
+  const { t, localizePath } = useI18n();
+  const { mode, cycleMode } = useTheme();
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const [query, setQuery] = useState('');
+  const [documents, setDocuments] = useState<SearchDocument[] | null>(null);
+  const [hasError, setHasError] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    let isCancelled = false;
+    loadSearchIndex()
+      .then((index) => !isCancelled && setDocuments(index))
+      .catch(() => !isCancelled && setHasError(true));
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const actions: PaletteItem[] = [
+    {
+      id: 'action:theme',
+      type: 'action',
+      label: t('search.action.toggleTheme', { mode: t(themeModeLabelKeys[mode]) }),
+      icon: themeModeIcons[mode],
+      keepOpen: true,
+      run: cycleMode,
+    },
+    {
+      id: 'action:demo',
+      type: 'action',
+      label: t('search.action.watchDemo'),
+      icon: Play,
+      run: () => navigate(`${localizePath('/')}?demo=${demos[0].id}`),
+    },
+    {
+      id: 'action:install',
+      type: 'action',
+      label: t('search.action.copyInstall'),
+      preview: INSTALL_COMMAND,
+      icon: Copy,
+      keepOpen: true,
+      run: () => {
+        navigator.clipboard.writeText(INSTALL_COMMAND)
+          .then(() => setStatus(t('search.action.copied')))
+          .catch(() => undefined);
+      },
+    },
+  ];
+
+  const terms = tokenize(query);
+  const matchingActions = actions.filter((action) =>
+    terms.every((term) => action.label.toLowerCase().includes(term))
+  );
+
+  const results = useMemo(
+    () => (documents ? searchDocuments(documents, query) : []),
+    [documents, query]
+  );
+
+  const resultItems: PaletteItem[] = results.map(({ document, snippet }) => ({
+    id: document.id,
+    type: document.type,
+    label: document.title,
+    context: document.context,
+    icon: typeIcons[document.type],
+    preview: snippet,
+    url: document.url,
+    run: () => navigate(localizePath(document.url)),
+  }));
+
+  const items = [...resultItems, ...matchingActions];
+  const activeItem = items[Math.min(activeIndex, items.length - 1)];
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Keep the highlighted option visible while moving with the keyboard
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runItem = (item: PaletteItem) => {
+    track('command-palette', { item: item.type === 'action' ? item.id : item.type, queryLength: query.length });
+    item.run();
+    if (!item.keepOpen) {
+      onClose();
+    }
+  };
+
+  // Modal handles Escape and keeps Tab inside the dialog
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'ArrowDown' && items.length > 0) {
+      event.preventDefault();
+      setActiveIndex((index) => (index + 1) % items.length);
+    } else if (event.key === 'ArrowUp' && items.length > 0) {
+      event.preventDefault();
+      setActiveIndex((index) => (index - 1 + items.length) % items.length);
+    } else if (event.key === 'Enter' && activeItem) {
+      event.preventDefault();
+      runItem(activeItem);
+    }
+  };
+
+  const renderGroup = (heading: string, groupItems: PaletteItem[], offset: number) => groupItems.length > 0 && (
+    <li role="presentation">
+      <div className="px-3 pt-3 pb-1 text-xs font-medium uppercase tracking-wide text-fg-subtle">{heading}</div>
+      <ul role="group" aria-label={heading}>
+        {groupItems.map((item, index) => {
+          const isActive = item === activeItem;
+          const Icon = item.icon;
+          return (
+            <li
+              key={item.id}
+              id={`palette-option-${offset + index}`}
+              role="option"
+              aria-selected={isActive}
+              onMouseMove={() => setActiveIndex(offset + index)}
+              onClick={() => runItem(item)}
+              className={`flex items-center gap-3 mx-1 px-3 py-2 rounded-lg cursor-pointer ${
+                isActive ? 'bg-surface-muted text-fg' : 'text-fg-muted'
+              }`}
+            >
+              <Icon size={16} className="flex-shrink-0" />
+              <span className="truncate">{item.label}</span>
+              {item.context && <span className="ml-auto flex-shrink-0 text-xs text-fg-subtle truncate">{item.context}</span>}
+            </li>
+          );
+        })}
+      </ul>
+    </li>
+  );
+
+  return (
+    <Modal
+      onClose={onClose}
+      label={t('search.label')}
+      initialFocusRef={inputRef}
+      position="top"
+      onKeyDown={handleKeyDown}
+      className="max-w-3xl overflow-hidden rounded-2xl border shadow-2xl bg-surface-raised border-line"
+    >
+      {/* Search field */}
+      <div className="flex items-center gap-3 px-4 border-b border-line">
+        <Search size={18} className="flex-shrink-0 text-fg-subtle" />
+        <input
+          ref={inputRef}
+          type="text"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="palette-options"
+          aria-activedescendant={activeItem ? `palette-option-${items.indexOf(activeItem)}` : undefined}
+          aria-label={t('search.label')}
+          placeholder={t('search.placeholder')}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setStatus('');
+          }}
+          className="flex-1 py-4 bg-transparent text-fg placeholder:text-fg-subtle focus:outline-none"
+        />
+        <button onClick={onClose} aria-label={t('search.close')} className="p-1 rounded-md text-fg-subtle hover:text-link-hover">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex h-[min(60vh,420px)]">
+        {/* Options */}
+        <ul id="palette-options" ref={listRef} role="listbox" aria-label={t('search.results')} className="flex-1 min-w-0 overflow-y-auto pb-2 text-sm">
+          {renderGroup(t('search.results'), resultItems, 0)}
+          {renderGroup(t('search.actions'), matchingActions, resultItems.length)}
+          {terms.length > 0 && (
+            <li role="presentation" className="px-4 py-3 text-fg-subtle">
+              {hasError && t('search.error')}
+              {!hasError && !documents && t('search.loading')}
+              {!hasError && documents && items.length === 0 && t('search.noResults', { query })}
+            </li>
+          )}
+        </ul>
+
+        {/* Preview */}
+        {activeItem && (
+          <aside className="hidden md:block w-72 flex-shrink-0 overflow-y-auto p-4 border-l border-line text-sm">
+            <div className="text-xs text-fg-subtle">{t(`search.type.${activeItem.type}`)}</div>
+            <div className="mt-1 font-medium text-fg">{activeItem.label}</div>
+            {activeItem.context && <div className="text-xs text-fg-subtle">{activeItem.context}</div>}
+            {activeItem.preview && (
+              <p className={`mt-3 text-fg-muted break-words ${activeItem.type === 'action' ? 'font-mono text-xs' : ''}`}>
+                {activeItem.preview}
+              </p>
+            )}
+            {activeItem.url && <div className="mt-3 text-xs text-fg-subtle break-all">{localizePath(activeItem.url)}</div>}
+          </aside>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div className="flex items-center justify-between gap-4 px-4 py-2 border-t border-line text-xs text-fg-subtle">
+        <span>{t('search.hint')}</span>
+        <span role="status">{status}</span>
+      </div>
+    </Modal>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { useI18n } from './I18nProvider';
+import { Button, Card } from './ui';
+import useAnalyticsConsent from '../hooks/useAnalyticsConsent';
+
+// Asks once for analytics consent; never shown under Do Not Track or when analytics is off
+const ConsentBanner = () => {
+  const { t } = useI18n();
+  const { consent, canAsk, setConsent } = useAnalyticsConsent();
+
+  if (!canAsk || consent !== null) return null;
+
+  return (
+    <Card as="section" variant="raised" aria-label={t('footer.privacy')}>
+      <p className="text-fg-muted">{t('consent.message')}</p>
+      <div className="flex justify-end gap-2 mt-4">
+        <Button size="sm" onClick={() => setConsent('denied')}>
+          {t('consent.decline')}
+        </Button>
+        <Button variant="primary" size="sm" onClick={() => setConsent('granted')}>
+          {t('consent.accept')}
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default ConsentBanner;
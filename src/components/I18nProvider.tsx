@@ -0,0 +1,85 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  MessageKey,
+  getPathLocale,
+  localizePath,
+  matchLocale,
+  stripLocale,
+  translate,
+} from '../i18n/locales';
+
+interface I18nContextValue {
+  locale: Locale;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  // Prefixes an unlocalized site path with the current locale
+  localizePath: (path: string) => string;
+  setLocale: (locale: Locale) => void;
+}
+
+const STORAGE_KEY = 'locale';
+
+const readPreferredLocale = (): Locale => {
+  try {
+    const saved = matchLocale(localStorage.getItem(STORAGE_KEY));
+    if (saved) return saved;
+  } catch {
+    // Fall through to the browser language
+  }
+  return matchLocale(navigator.language) ?? DEFAULT_LOCALE;
+};
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used within an I18nProvider');
+  }
+  return context;
+};
+
+// The URL prefix is the source of truth so prerendered pages carry their locale
+const I18nProvider = ({ children }: { children: React.ReactNode }) => {
+  const { pathname, search, hash } = useLocation();
+  const navigate = useNavigate();
+  const locale = getPathLocale(pathname);
+
+  // Unprefixed (English) URLs redirect once, on the first render, to the stored
+  // or browser locale; later navigation to English pages is left alone
+  const checkedPreferenceRef = useRef(false);
+  useEffect(() => {
+    if (checkedPreferenceRef.current) return;
+    checkedPreferenceRef.current = true;
+    const preferred = readPreferredLocale();
+    if (locale === DEFAULT_LOCALE && preferred !== DEFAULT_LOCALE) {
+      navigate(`${localizePath(pathname, preferred)}${search}${hash}`, { replace: true });
+    }
+  }, [locale, pathname, search, hash, navigate]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((nextLocale: Locale) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, nextLocale);
+    } catch {
+      // The switch still applies through the URL
+    }
+    navigate(`${localizePath(stripLocale(pathname), nextLocale)}${search}${hash}`);
+  }, [pathname, search, hash, navigate]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    t: (key, params) => translate(locale, key, params),
+    localizePath: (path) => localizePath(path, locale),
+    setLocale,
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+import { Button, Card } from './ui';
+import usePwa from '../hooks/usePwa';
+import { promptInstall } from '../services/pwa';
+
+const STORAGE_KEY = 'install-prompt-dismissed';
+
+// Replaces the browser's install infobar; only appears where the browser offers installation
+const InstallPrompt = () => {
+  const { t } = useI18n();
+  const { canInstall } = usePwa();
+  const [isDismissed, setIsDismissed] = useState(true);
+
+  useEffect(() => {
+    try {
+      setIsDismissed(localStorage.getItem(STORAGE_KEY) === 'true');
+    } catch {
+      setIsDismissed(false);
+    }
+  }, []);
+
+  if (!canInstall || isDismissed) return null;
+
+  const dismiss = () => {
+    setIsDismissed(true);
+    try {
+      localStorage.setItem(STORAGE_KEY, 'true');
+    } catch {
+      // Stays dismissed for this page view only
+    }
+  };
+
+  return (
+    <Card as="section" variant="raised" aria-label={t('pwa.installTitle')}>
+      <div className="flex items-center gap-2 font-medium text-fg">
+        <Download size={16} />
+        <span>{t('pwa.installTitle')}</span>
+      </div>
+      <p className="mt-1 text-fg-muted">{t('pwa.installDescription')}</p>
+      <div className="flex justify-end gap-2 mt-4">
+        <Button size="sm" onClick={dismiss}>
+          {t('pwa.notNow')}
+        </Button>
+        <Button variant="primary" size="sm" onClick={() => promptInstall()}>
+          {t('pwa.install')}
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default InstallPrompt;
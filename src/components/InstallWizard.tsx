@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, ExternalLink, RotateCcw } from 'lucide-react';
+import CodeSnippet from './CodeSnippet';
+import { useI18n } from './I18nProvider';
+import installSteps from '../data/installSteps';
+import { MessageKey } from '../i18n/locales';
+
+const PROGRESS_KEY = 'install-progress';
+
+const readProgress = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PROGRESS_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+// Step-by-step Lume setup with a checklist that persists across visits
+const InstallWizard = () => {
+  const { t, localizePath } = useI18n();
+  const [completed, setCompleted] = useState<string[]>([]);
+
+  // Read after mount so prerendered markup matches the first client render
+  useEffect(() => {
+    setCompleted(readProgress());
+  }, []);
+
+  const saveProgress = (next: string[]) => {
+    setCompleted(next);
+    try {
+      localStorage.setItem(PROGRESS_KEY, JSON.stringify(next));
+    } catch {
+      // Progress just won't persist
+    }
+  };
+
+  const toggleStep = (id: string) => {
+    saveProgress(completed.includes(id) ? completed.filter((step) => step !== id) : [...completed, id]);
+  };
+
+  const completedCount = installSteps.filter((step) => completed.includes(step.id)).length;
+  const currentStep = installSteps.find((step) => !completed.includes(step.id));
+
+  return (
+    <section className="text-left mt-16 md:mt-24" aria-labelledby="install-wizard-title">
+      <div className="flex items-end justify-between gap-4 mb-6">
+        <div>
+          <h2 id="install-wizard-title" className="text-2xl font-bold text-fg">{t('install.title')}</h2>
+          <p className="text-sm mt-1 text-fg-muted">
+            {completedCount === installSteps.length
+              ? t('install.complete')
+              : t('install.progress', { done: completedCount, total: installSteps.length })}
+          </p>
+        </div>
+        {completedCount > 0 && (
+          <button
+            onClick={() => saveProgress([])}
+            className="inline-flex items-center gap-1 text-sm text-fg-subtle hover:text-link-hover"
+          >
+            <RotateCcw size={14} />
+            <span>{t('install.reset')}</span>
+          </button>
+        )}
+      </div>
+
+      {/* Progress bar */}
+      <div className="h-1 rounded-full bg-surface-muted dark:bg-neutral-800 mb-8 overflow-hidden">
+        <div
+          className="h-full bg-fg transition-[width] duration-300 ease-out"
+          style={{ width: `${(completedCount / installSteps.length) * 100}%` }}
+        />
+      </div>
+
+      <ol className="space-y-8">
+        {installSteps.map((step, index) => {
+          const isDone = completed.includes(step.id);
+          const isCurrent = step === currentStep;
+          // Step copy comes from the catalogs (install.<id>.*), not from the data file
+          const stepText = (field: 'title' | 'description' | 'link') => t(`install.${step.id}.${field}` as MessageKey);
+          return (
+            <li key={step.id} className={`flex gap-4 ${isDone && !isCurrent ? 'opacity-60' : ''}`}>
+              <button
+                onClick={() => toggleStep(step.id)}
+                role="checkbox"
+                aria-checked={isDone}
+                aria-label={t(isDone ? 'install.markNotDone' : 'install.markDone', { step: stepText('title') })}
+                className={`flex-shrink-0 w-8 h-8 rounded-full border flex items-center justify-center text-sm font-medium transition-colors ${
+                  isDone
+                    ? 'bg-inverse text-inverse-fg border-transparent'
+                    : isCurrent
+                      ? 'border-fg text-fg'
+                      : 'border-line text-fg-subtle hover:border-line-strong'
+                }`}
+              >
+                {isDone ? <Check size={16} /> : index + 1}
+              </button>
+              <div className="flex-1 min-w-0">
+                <h3 className="font-bold text-lg text-fg">{stepText('title')}</h3>
+                <p className="text-sm mt-1 mb-3 text-fg-muted">
+                  {stepText('description')}
+                  {step.link && (
+                    <>
+                      {' '}
+                      {step.link.href.startsWith('/') ? (
+                        <Link to={localizePath(step.link.href)} className="underline underline-offset-2 text-link hover:text-link-hover">
+                          {stepText('link')}
+                        </Link>
+                      ) : (
+                        <a href={step.link.href} className="inline-flex items-center gap-1 underline underline-offset-2 text-link hover:text-link-hover">
+                          {stepText('link')}
+                          <ExternalLink size={12} />
+                        </a>
+                      )}
+                    </>
+                  )}
+                </p>
+                <CodeSnippet
+                  tabs={step.tabs}
+                  onCopy={() => {
+                    if (!isDone) toggleStep(step.id);
+                  }}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+};
+
+export default InstallWizard;
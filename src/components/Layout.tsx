@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, Outlet, useLocation } from 'react-router-dom';
+import { Github, Menu, Search, X, Star } from 'lucide-react';
+import CommandPalette from './CommandPalette';
+import ConsentBanner from './ConsentBanner';
+import { useI18n } from './I18nProvider';
+import InstallPrompt from './InstallPrompt';
+import LocaleSwitcher from './LocaleSwitcher';
+import { themeModeIcons, themeModeLabelKeys, useTheme } from './ThemeProvider';
+import UpdateToast from './UpdateToast';
+import { Button, NavLink, PillLink, buttonClassName } from './ui';
+import useAnalyticsConsent from '../hooks/useAnalyticsConsent';
+import usePageMeta from '../hooks/usePageMeta';
+import useRepoStats from '../hooks/useRepoStats';
+import { track } from '../services/analytics';
+import { formatCount } from '../services/githubStats';
+import { flushWaitlistQueue } from '../services/waitlist';
+
+const Layout = () => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  // Filled in after mount so prerendered markup does not depend on the visitor's OS
+  const [shortcutLabel, setShortcutLabel] = useState('');
+  const { mode, cycleMode } = useTheme();
+  const { t, localizePath } = useI18n();
+  const ThemeIcon = themeModeIcons[mode];
+  const lumeStats = useRepoStats('trycua/lume');
+  const { canAsk: canAskConsent, setConsent } = useAnalyticsConsent();
+  const { pathname, hash } = useLocation();
+  usePageMeta(pathname);
+
+  // Retry waitlist signups that failed on an earlier visit
+  useEffect(() => {
+    const retry = () => {
+      flushWaitlistQueue();
+    };
+    retry();
+    window.addEventListener('online', retry);
+    return () => window.removeEventListener('online', retry);
+  }, []);
+
+  // ⌘K / Ctrl-K toggles the command palette from anywhere
+  useEffect(() => {
+    setShortcutLabel(/Mac|iPhone|iPad/.test(navigator.platform) ? '⌘K' : 'Ctrl K');
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsPaletteOpen((isOpen) => !isOpen);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      const target = event.target as HTMLElement;
+      if (isMenuOpen && !target.closest('[data-menu-container]')) {
+        setIsMenuOpen(false);
+      }
+    };
+
+    document.addEventListener('click', handleClick);
+    return () => document.removeEventListener('click', handleClick);
+  }, [isMenuOpen]);
+
+  // Close the mobile menu and reset scroll when navigating between pages,
+  // unless the URL targets an anchor that the page scrolls to itself. Hash-only
+  // changes within a page are left alone.
+  const scrolledPathnameRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (scrolledPathnameRef.current === pathname) return;
+    scrolledPathnameRef.current = pathname;
+    setIsMenuOpen(false);
+    if (!hash) {
+      window.scrollTo(0, 0);
+    }
+  }, [pathname, hash]);
+
+  return (
+    <div className="min-h-screen bg-surface transition-[background-color,border-color] duration-200 ease-in-out">
+      {/* Header */}
+      <nav className="fixed top-0 left-0 right-0 p-4 z-50 bg-surface transition-[background-color,border-color] duration-200 ease-in-out">
+        <div className="max-w-7xl mx-auto flex justify-between items-center">
+          <div className="flex items-center">
+            <Link to={localizePath('/')} className="text-fg hover:text-fg-muted">
+              <img src="/logo-black.svg" alt="TryCua Logo" className="h-10 w-10 dark:hidden" />
+              <img src="/logo-white.svg" alt="TryCua Logo" className="h-10 w-10 hidden dark:block" />
+            </Link>
+            {/* Desktop Navigation */}
+            <div className="hidden md:flex items-center space-x-4 ml-4">
+              <NavLink href="https://discord.com/invite/mVnXXpdE85">{t('nav.discord')}</NavLink>
+              <NavLink href="https://github.com/trycua">{t('nav.github')}</NavLink>
+              <NavLink href="/images">{t('nav.images')}</NavLink>
+              <NavLink href="/blog">{t('nav.blog')}</NavLink>
+            </div>
+          </div>
+          
+          {/* Mobile menu button */}
+          <button 
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsMenuOpen(!isMenuOpen);
+            }}
+            className="md:hidden text-fg-muted hover:text-link-hover"
+            data-menu-container
+          >
+            {isMenuOpen ? <X size={28} /> : <Menu size={28} />}
+          </button>
+
+          <div className="hidden md:flex items-center gap-3 fixed right-8 top-4">
+            {/* Search */}
+            <Button size="sm" className="transform-gpu" onClick={() => setIsPaletteOpen(true)}>
+              <Search size={16} />
+              <span>{t('search.open')}</span>
+              {shortcutLabel && <kbd className="text-xs font-sans text-fg-subtle">{shortcutLabel}</kbd>}
+            </Button>
+
+            {/* Locale Switch */}
+            <LocaleSwitcher className={buttonClassName({ size: 'sm' }, 'transform-gpu')} />
+
+            {/* Theme Switch */}
+            <Button size="sm" className="transform-gpu" onClick={cycleMode}>
+              <ThemeIcon size={16} />
+              <span>{t(themeModeLabelKeys[mode])}</span>
+            </Button>
+
+            {/* GitHub Link */}
+            <PillLink
+              href="https://github.com/trycua/lume"
+              size="sm"
+              className="transform-gpu"
+              onClick={() => track('cta-click', { cta: 'github', placement: 'nav' })}
+            >
+              <Github size={16} />
+              <Star size={16} className="fill-current" />
+              {lumeStats && <span>{formatCount(lumeStats.stars)}</span>}
+            </PillLink>
+          </div>
+        </div>
+
+        {/* Mobile menu */}
+        {isMenuOpen && (
+          <>
+            <div 
+              className="absolute top-full left-0 right-0 p-4 md:hidden z-50 bg-surface shadow-lg dark:shadow-[0_8px_30px_rgb(0,0,0,0.4)]"
+              data-menu-container
+            >
+              <div className="flex flex-col space-y-6">
+                <div className="flex flex-col space-y-4">
+                  <NavLink href="https://discord.com/invite/mVnXXpdE85">{t('nav.discord')}</NavLink>
+                  <NavLink href="https://github.com/trycua">{t('nav.github')}</NavLink>
+                  <NavLink href="/images">{t('nav.images')}</NavLink>
+                  <NavLink href="/blog">{t('nav.blog')}</NavLink>
+                </div>
+                <div className="h-px bg-gradient-to-r from-transparent via-gray-200 dark:via-gray-800 to-transparent" />
+                <div className="flex flex-col space-y-4">
+                  <button
+                    className="flex items-center gap-2 py-2 text-link hover:text-link-hover"
+                    onClick={() => setIsPaletteOpen(true)}
+                  >
+                    <Search size={16} />
+                    <span>{t('search.open')}</span>
+                  </button>
+                  <button
+                    className="flex items-center gap-2 py-2 text-link hover:text-link-hover"
+                    onClick={cycleMode}
+                  >
+                    <ThemeIcon size={16} />
+                    <span>{t(themeModeLabelKeys[mode])}</span>
+                  </button>
+                  <LocaleSwitcher className="py-2 text-link hover:text-link-hover" />
+                  {/* GitHub Link in Mobile Menu */}
+                  <a 
+                    href="https://github.com/trycua/lume" 
+                    onClick={() => track('cta-click', { cta: 'github', placement: 'menu' })}
+                    className="flex items-center gap-2 py-2 text-link hover:text-link-hover"
+                  >
+                    <Github size={16} />
+                    <Star size={16} className="fill-current" />
+                    {lumeStats && <span>{formatCount(lumeStats.stars)}</span>}
+                  </a>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </nav>
+
+      <Outlet />
+
+      {isPaletteOpen && <CommandPalette onClose={() => setIsPaletteOpen(false)} />}
+
+      {/* Toasts */}
+      <div className="fixed bottom-20 left-4 right-4 md:left-auto md:right-8 md:w-96 z-40 flex flex-col gap-3">
+        <UpdateToast />
+        <ConsentBanner />
+        <InstallPrompt />
+      </div>
+
+      {/* Footer */}
+      <footer className="fixed bottom-0 w-full p-4 border-t transition-colors bg-surface border-line">
+        <div className="max-w-7xl mx-auto flex flex-col md:flex-row justify-between items-center text-sm space-y-4 md:space-y-0">
+          <div className="text-fg-subtle">{t('footer.copyright')}</div>
+          <div className="flex flex-wrap justify-center md:justify-end gap-4 md:gap-6">
+            <NavLink variant="footer" href="/docs">{t('nav.docs')}</NavLink>
+            <NavLink variant="footer" href="/playground">{t('nav.playground')}</NavLink>
+            <NavLink variant="footer" href="/community">{t('nav.community')}</NavLink>
+            <NavLink variant="footer" href="https://github.com/trycua">{t('nav.github')}</NavLink>
+            <NavLink variant="footer" href="https://discord.com/invite/mVnXXpdE85">{t('nav.discord')}</NavLink>
+            <NavLink variant="footer" href="https://twitter.com/trycua">{t('footer.twitter')}</NavLink>
+            {canAskConsent && (
+              <button onClick={() => setConsent(null)} className="text-fg-subtle hover:text-link-hover">{t('footer.privacy')}</button>
+            )}
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+};
+
+export default Layout;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+import { LOCALES, Locale, localeLabels } from '../i18n/locales';
+
+interface LocaleSwitcherProps {
+  className?: string;
+}
+
+const LocaleSwitcher = ({ className = '' }: LocaleSwitcherProps) => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className={`relative flex items-center gap-2 cursor-pointer ${className}`}>
+      <Languages size={16} />
+      <span className="sr-only">{t('nav.language')}</span>
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="appearance-none bg-transparent cursor-pointer focus:outline-none"
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option} lang={option}>{localeLabels[option]}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LocaleSwitcher;
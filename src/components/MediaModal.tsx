@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Play, X } from 'lucide-react';
+import { MediaItem } from '../data/demos';
+import { track } from '../services/analytics';
+import { useI18n } from './I18nProvider';
+import { Modal } from './ui';
+
+interface MediaModalProps {
+  items: MediaItem[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  // Seconds to seek to once the first video has loaded
+  startTime?: number;
+}
+
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Video dialog on top of Modal: arrow keys to switch items, captions and
+ * chapter markers. Render it only while open so the videos are not fetched
+ * before they are needed.
+ */
+const MediaModal = ({ items, index, onIndexChange, onClose, startTime = 0 }: MediaModalProps) => {
+  const { t } = useI18n();
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const pendingSeekRef = useRef(startTime);
+  const [currentTime, setCurrentTime] = useState(0);
+  const item = items[index];
+  const chapters = item.chapters ?? [];
+
+  useEffect(() => {
+    setCurrentTime(0);
+  }, [index]);
+
+  const showPrevious = () => onIndexChange(index > 0 ? index - 1 : items.length - 1);
+  const showNext = () => onIndexChange(index < items.length - 1 ? index + 1 : 0);
+
+  // Modal handles Escape and keeps Tab inside the dialog
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    // Arrow keys on the video itself seek, so leave them to the native controls
+    const isOnVideo = event.target instanceof HTMLVideoElement;
+    if (event.key === 'ArrowLeft' && !isOnVideo && items.length > 1) {
+      event.preventDefault();
+      showPrevious();
+    } else if (event.key === 'ArrowRight' && !isOnVideo && items.length > 1) {
+      event.preventDefault();
+      showNext();
+    }
+  };
+
+  const handleLoadedMetadata = () => {
+    if (videoRef.current && pendingSeekRef.current > 0) {
+      videoRef.current.currentTime = pendingSeekRef.current;
+    }
+    pendingSeekRef.current = 0;
+  };
+
+  const seekTo = (time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+      videoRef.current.play().catch(() => undefined);
+    }
+  };
+
+  const activeChapter = chapters.reduce<number>(
+    (active, chapter, chapterIndex) => (currentTime >= chapter.time ? chapterIndex : active),
+    -1
+  );
+
+  return (
+    <Modal
+      onClose={onClose}
+      labelledBy="media-modal-title"
+      initialFocusRef={closeButtonRef}
+      onKeyDown={handleKeyDown}
+      className="max-w-4xl flex flex-col gap-3"
+    >
+      <div className="relative w-full aspect-video rounded-xl overflow-hidden shadow-2xl bg-black">
+        {/* Close button */}
+        <button
+          ref={closeButtonRef}
+          onClick={onClose}
+          aria-label={t('media.close')}
+          className="absolute top-4 right-4 z-10 p-2 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        {/* Video title */}
+        <h2 id="media-modal-title" className="absolute top-4 left-4 z-10 px-3 py-1.5 rounded-lg bg-black/50 text-white">
+          {item.title}
+        </h2>
+
+        {/* Navigation arrows */}
+        {items.length > 1 && (
+          <>
+            <button
+              onClick={showPrevious}
+              aria-label={t('media.previous')}
+              className="absolute left-4 top-1/2 -translate-y-1/2 z-10 p-2 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors"
+            >
+              <ChevronLeft size={24} />
+            </button>
+            <button
+              onClick={showNext}
+              aria-label={t('media.next')}
+              className="absolute right-4 top-1/2 -translate-y-1/2 z-10 p-2 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors"
+            >
+              <ChevronRight size={24} />
+            </button>
+          </>
+        )}
+
+        {/* Video */}
+        <video
+          ref={videoRef}
+          key={item.src} // Add key to force video reload when source changes
+          className="w-full h-full"
+          autoPlay
+          controls
+          playsInline
+          preload="metadata"
+          poster={item.poster}
+          src={item.src}
+          onLoadedMetadata={handleLoadedMetadata}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          onPlay={(e) => track('video-play', { video: item.id, position: Math.round(e.currentTarget.currentTime) })}
+          onEnded={(e) => track('video-complete', { video: item.id, duration: Math.round(e.currentTarget.duration) })}
+        >
+          {item.captions?.map((caption, captionIndex) => (
+            <track
+              key={caption.src}
+              kind="subtitles"
+              src={caption.src}
+              label={caption.label}
+              srcLang={caption.srcLang}
+              default={captionIndex === 0}
+            />
+          ))}
+        </video>
+      </div>
+
+      {/* Chapter markers */}
+      {chapters.length > 0 && (
+        <div className="flex flex-wrap gap-2" aria-label={t('media.chapters')}>
+          {chapters.map((chapter, chapterIndex) => (
+            <button
+              key={chapter.time}
+              onClick={() => seekTo(chapter.time)}
+              aria-current={chapterIndex === activeChapter ? 'true' : undefined}
+              className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm transition-colors ${
+                chapterIndex === activeChapter
+                  ? 'bg-white text-black'
+                  : 'bg-black/50 text-white hover:bg-black/70'
+              }`}
+            >
+              <span className="tabular-nums opacity-70">{formatTime(chapter.time)}</span>
+              <span>{chapter.title}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Thumbnail strip */}
+      {items.length > 1 && (
+        <div className="flex gap-3 overflow-x-auto" aria-label={t('media.demos')}>
+          {items.map((entry, entryIndex) => (
+            <button
+              key={entry.id}
+              onClick={() => onIndexChange(entryIndex)}
+              aria-current={entryIndex === index ? 'true' : undefined}
+              className={`relative flex-shrink-0 w-40 aspect-video rounded-lg overflow-hidden border-2 transition-colors ${
+                entryIndex === index ? 'border-white' : 'border-transparent hover:border-white/50'
+              }`}
+            >
+              {entry.poster ? (
+                <img src={entry.poster} alt="" loading="lazy" className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full bg-black/70" />
+              )}
+              <span className="absolute inset-0 flex items-center justify-center gap-1 text-sm text-white">
+                <Play size={14} />
+                {entry.title}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default MediaModal;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+import BaseLink from './ui/BaseLink';
+import usePlatform from '../hooks/usePlatform';
+import { isSupportedPlatform, osLabels } from '../services/platform';
+
+interface PlatformNoticeProps {
+  className?: string;
+}
+
+// Availability line that turns into a warning when the visitor can't run Lume;
+// both link to the full requirements
+const PlatformNotice = ({ className = '' }: PlatformNoticeProps) => {
+  const { t } = useI18n();
+  const platform = usePlatform();
+  const isSupported = platform ? isSupportedPlatform(platform) : null;
+
+  if (!platform || isSupported === null) {
+    return (
+      <p className={`text-sm text-fg-subtle ${className}`}>
+        <BaseLink href="/requirements" className="hover:text-link-hover">{t('platform.available')}</BaseLink>
+      </p>
+    );
+  }
+
+  if (isSupported) {
+    return (
+      <p className={`inline-flex items-center justify-center gap-2 text-sm text-fg-subtle ${className}`}>
+        <CheckCircle2 size={16} className="text-green-600 dark:text-green-400" />
+        <span>{platform.chip ? t('platform.supportedChip', { chip: platform.chip }) : t('platform.supported')}</span>
+      </p>
+    );
+  }
+
+  const reason = platform.os === 'macos'
+    ? t('platform.intel')
+    : t('platform.unsupported', { os: platform.os === 'unknown' ? t('platform.unknownOs') : osLabels[platform.os] });
+
+  return (
+    <p role="status" className={`inline-flex items-center justify-center gap-2 text-sm text-amber-700 dark:text-amber-400 ${className}`}>
+      <AlertTriangle size={16} className="flex-shrink-0" />
+      <span>
+        {reason}{' '}
+        <BaseLink href="/requirements" className="underline hover:text-link-hover">{t('platform.requirements')}</BaseLink>
+      </span>
+    </p>
+  );
+};
+
+export default PlatformNotice;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { BookOpen, Github, Star, Tag } from 'lucide-react';
+import useRepoStats from '../hooks/useRepoStats';
+import { hasMessage } from '../i18n/locales';
+import { track } from '../services/analytics';
+import { formatCount } from '../services/githubStats';
+import { useI18n } from './I18nProvider';
+import { PillLink } from './ui';
+import { Product, hasProductPage } from '../data/products';
+
+interface ProductCardProps {
+  product: Product;
+  // Mobile layout stacks cards in one panel, so every card but the first gets a divider
+  showDivider?: boolean;
+}
+
+const ProductCard = ({ product, showDivider = false }: ProductCardProps) => {
+  const { t, localizePath } = useI18n();
+  const { id, icon: Icon, name, status, githubRepo, repoUrl, docsUrl } = product;
+  const stats = useRepoStats(githubRepo);
+  const isAvailable = hasProductPage(product);
+  const statusLabel = status === 'ga' ? null : t(`status.${status}`);
+  // Catalogs translate the manifest copy; a new product needs only its manifest entry
+  const descriptionKey = `products.${id}.description`;
+  const description = hasMessage(descriptionKey) ? t(descriptionKey) : product.description;
+  const isSitePath = docsUrl.startsWith('/');
+  const dividerClass = showDivider ? 'border-t border-gray-100 dark:border-neutral-800 md:border-t-0' : '';
+
+  const content = (
+    <div className={`p-6 md:p-8 h-full md:bg-surface md:border-line md:rounded-xl md:border ${
+      isAvailable
+        ? 'transition-all duration-200 ease-in-out hover:bg-black/[0.02] dark:hover:bg-white/[0.02] active:scale-[0.98] md:hover:border-fg md:hover:shadow-[0_8px_30px_rgb(0,0,0,0.12)] dark:md:hover:shadow-[0_8px_30px_rgb(255,255,255,0.12)] md:hover:bg-transparent dark:md:hover:bg-transparent md:active:scale-100'
+        : 'transition-[background-color,border-color,opacity,box-shadow] duration-200 ease-in-out opacity-50 pointer-events-none'
+    }`}>
+      {statusLabel && (
+        <div className="text-xs px-2 py-1 inline-block mb-4 md:mb-1 md:absolute md:top-0 md:right-0 md:rounded-tr-xl md:rounded-bl-xl transition-[background-color,color] duration-200 ease-in-out text-fg-subtle md:bg-surface-muted">
+          {statusLabel}
+        </div>
+      )}
+      <div className="flex items-center gap-3 justify-center md:flex-col md:gap-4">
+        <div className="w-6 flex-shrink-0">
+          <Icon className="w-full h-6 text-fg-muted" />
+        </div>
+        <h3 className={`font-bold text-xl md:text-center text-fg ${
+          isAvailable ? 'transition-colors duration-200 ease-in-out md:group-hover:text-gray-700 dark:md:group-hover:text-gray-200' : ''
+        }`}>
+          {isAvailable ? (
+            // Stretched over the card, so the repo and docs links can sit on top of it
+            <Link
+              to={localizePath(`/${id}`)}
+              onClick={() => track('cta-click', { cta: 'product-card', product: id })}
+              className="after:absolute after:inset-0"
+            >
+              {name}
+            </Link>
+          ) : name}
+        </h3>
+      </div>
+      <p className="text-sm leading-relaxed mt-2 px-2 md:px-0 text-fg-muted">{description}</p>
+      {stats && (
+        <div className="flex items-center justify-center gap-4 mt-4 text-xs text-fg-subtle">
+          <span className="inline-flex items-center gap-1">
+            <Star size={12} className="fill-current" />
+            {formatCount(stats.stars)}
+          </span>
+          {stats.latestRelease && (
+            <span className="inline-flex items-center gap-1">
+              <Tag size={12} />
+              {stats.latestRelease}
+            </span>
+          )}
+        </div>
+      )}
+      <div className="relative z-10 flex items-center justify-center gap-2 mt-4 pointer-events-auto">
+        <PillLink href={repoUrl} target="_blank" rel="noopener noreferrer" size="sm">
+          <Github size={14} /> {t('nav.github')}
+        </PillLink>
+        <PillLink
+          href={docsUrl}
+          target={isSitePath ? undefined : '_blank'}
+          rel={isSitePath ? undefined : 'noopener noreferrer'}
+          size="sm"
+        >
+          <BookOpen size={14} /> {t('nav.docs')}
+        </PillLink>
+      </div>
+    </div>
+  );
+
+  if (!isAvailable) {
+    return (
+      <div className={`relative ${dividerClass}`} aria-disabled="true">
+        {content}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`group relative ${dividerClass}`}>
+      {content}
+    </div>
+  );
+};
+
+export default ProductCard;
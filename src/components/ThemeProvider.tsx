@@ -0,0 +1,108 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { LucideIcon, Moon, Sun, SunMoon } from 'lucide-react';
+import { MessageKey } from '../i18n/locales';
+
+export type ThemeMode = 'light' | 'dark' | 'system';
+export type ResolvedTheme = 'light' | 'dark';
+
+interface ThemeContextValue {
+  mode: ThemeMode;
+  resolvedTheme: ResolvedTheme;
+  setMode: (mode: ThemeMode) => void;
+  cycleMode: () => void;
+}
+
+// Keep in sync with the pre-hydration script in public/index.html
+const STORAGE_KEY = 'theme';
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+const THEME_COLORS: Record<ResolvedTheme, string> = { light: '#ffffff', dark: '#171717' };
+const MODE_ORDER: ThemeMode[] = ['light', 'dark', 'system'];
+
+export const themeModeLabelKeys: Record<ThemeMode, MessageKey> = {
+  light: 'theme.light',
+  dark: 'theme.dark',
+  system: 'theme.system',
+};
+
+export const themeModeIcons: Record<ThemeMode, LucideIcon> = {
+  light: Sun,
+  dark: Moon,
+  system: SunMoon,
+};
+
+const readStoredMode = (): ThemeMode => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved === 'light' || saved === 'dark' ? saved : 'system';
+  } catch {
+    return 'system';
+  }
+};
+
+const getSystemTheme = (): ResolvedTheme =>
+  window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light';
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+export const useTheme = (): ThemeContextValue => {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useTheme must be used within a ThemeProvider');
+  }
+  return context;
+};
+
+const ThemeProvider = ({ children }: { children: React.ReactNode }) => {
+  // Prerendered markup is theme-agnostic, so start from 'system' and read the
+  // stored preference after hydration; the inline script has already set the class.
+  const [mode, setModeState] = useState<ThemeMode>('system');
+  const [systemTheme, setSystemTheme] = useState<ResolvedTheme>('light');
+  const [isReady, setIsReady] = useState(false);
+
+  useEffect(() => {
+    setModeState(readStoredMode());
+    setSystemTheme(getSystemTheme());
+    setIsReady(true);
+
+    // Follow the OS preference live
+    const query = window.matchMedia(DARK_QUERY);
+    const handleChange = (event: MediaQueryListEvent) => setSystemTheme(event.matches ? 'dark' : 'light');
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  const resolvedTheme = mode === 'system' ? systemTheme : mode;
+
+  useEffect(() => {
+    if (!isReady) return;
+    const root = document.documentElement;
+    root.classList.toggle('dark', resolvedTheme === 'dark');
+    document.querySelector('meta[name="theme-color"]')?.setAttribute('content', THEME_COLORS[resolvedTheme]);
+  }, [isReady, resolvedTheme]);
+
+  const setMode = useCallback((nextMode: ThemeMode) => {
+    setModeState(nextMode);
+    try {
+      if (nextMode === 'system') {
+        localStorage.removeItem(STORAGE_KEY);
+      } else {
+        localStorage.setItem(STORAGE_KEY, nextMode);
+      }
+    } catch {
+      // The choice still applies for this visit
+    }
+  }, []);
+
+  const cycleMode = useCallback(() => {
+    setMode(MODE_ORDER[(MODE_ORDER.indexOf(mode) + 1) % MODE_ORDER.length]);
+  }, [mode, setMode]);
+
+  const value = useMemo(
+    () => ({ mode, resolvedTheme, setMode, cycleMode }),
+    [mode, resolvedTheme, setMode, cycleMode]
+  );
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+export default ThemeProvider;
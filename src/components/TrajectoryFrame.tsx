@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowLeft, ArrowRight, ArrowUp, Keyboard } from 'lucide-react';
+import { TrajectoryAction, TrajectoryStep, describeAction } from '../services/trajectory';
+import { useI18n } from './I18nProvider';
+
+interface TrajectoryFrameProps {
+  step: TrajectoryStep;
+  // Coordinate space of the actions; defaults to the screenshot's natural size
+  screen?: { width: number; height: number };
+}
+
+const POINTER_TYPES: TrajectoryAction['type'][] = ['click', 'double_click', 'right_click', 'move', 'drag', 'scroll'];
+
+// Placeholder aspect ratio when there is neither a screenshot nor a screen size
+const FALLBACK_SCREEN = { width: 1280, height: 800 };
+
+const scrollIcon = ({ scrollX = 0, scrollY = 0 }: TrajectoryAction) => {
+  if (Math.abs(scrollX) > Math.abs(scrollY)) return scrollX > 0 ? ArrowRight : ArrowLeft;
+  return scrollY < 0 ? ArrowUp : ArrowDown;
+};
+
+/**
+ * A step's screenshot with its actions drawn on top: rings for clicks, a line
+ * for drags, an arrow for scrolls and a caption for typing and key presses.
+ */
+const TrajectoryFrame = ({ step, screen }: TrajectoryFrameProps) => {
+  const { t } = useI18n();
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const size = screen ?? naturalSize ?? FALLBACK_SCREEN;
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  const pointerActions = step.actions.filter(
+    (action) => POINTER_TYPES.includes(action.type) && action.x !== undefined && action.y !== undefined
+  );
+  const otherActions = step.actions.filter((action) => !pointerActions.includes(action));
+  // Number the markers when a step has more than one
+  const isNumbered = step.actions.length > 1;
+
+  return (
+    <div
+      className="relative overflow-hidden rounded-xl border border-line bg-surface-muted"
+      style={{ aspectRatio: `${size.width} / ${size.height}` }}
+    >
+      {step.screenshot ? (
+        <img
+          src={step.screenshot}
+          alt={t('trajectory.screenshotAlt', { step: step.index })}
+          onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          className="absolute inset-0 w-full h-full object-fill"
+        />
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-fg-subtle">
+          {t('trajectory.noScreenshot')}
+        </div>
+      )}
+
+      {/* Drag paths, in screen coordinates */}
+      <svg
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        viewBox={`0 0 ${size.width} ${size.height}`}
+        preserveAspectRatio="none"
+        aria-hidden="true"
+      >
+        {pointerActions
+          .filter((action) => action.type === 'drag' && action.toX !== undefined && action.toY !== undefined)
+          .map((action, index) => (
+            <line
+              key={index}
+              x1={action.x}
+              y1={action.y}
+              x2={action.toX}
+              y2={action.toY}
+              stroke="#ef4444"
+              strokeWidth={3}
+              strokeDasharray="8 6"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+      </svg>
+
+      {/* Pointer markers */}
+      {pointerActions.map((action, index) => {
+        const ScrollIcon = scrollIcon(action);
+        return (
+          <div
+            key={index}
+            className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+            style={{ left: percent(action.x!, size.width), top: percent(action.y!, size.height) }}
+          >
+            {action.type === 'scroll' ? (
+              <span className="flex items-center justify-center w-8 h-8 rounded-full bg-red-500 text-white shadow-lg">
+                <ScrollIcon size={18} />
+              </span>
+            ) : (
+              <span
+                className={`relative flex items-center justify-center rounded-full border-red-500 bg-red-500/20 ${
+                  action.type === 'move' ? 'w-4 h-4 border-2' : 'w-8 h-8 border-[3px]'
+                } ${action.type === 'right_click' ? 'border-dashed' : ''} ${
+                  action.type === 'double_click' ? 'outline outline-2 outline-offset-2 outline-red-500' : ''
+                }`}
+              >
+                {action.type !== 'move' && <span className="absolute inset-0 rounded-full bg-red-500/40 animate-ping" />}
+                {isNumbered && <span className="text-xs font-bold text-white drop-shadow">{step.actions.indexOf(action) + 1}</span>}
+              </span>
+            )}
+          </div>
+        );
+      })}
+
+      {/* Typing, key presses and other actions */}
+      {otherActions.length > 0 && (
+        <div className="absolute left-3 right-3 bottom-3 flex flex-wrap justify-center gap-2 pointer-events-none">
+          {otherActions.map((action, index) => (
+            <span
+              key={index}
+              className="inline-flex items-center gap-2 max-w-full px-3 py-1.5 rounded-lg bg-black/75 text-white text-sm shadow-lg"
+            >
+              {(action.type === 'type' || action.type === 'keypress') && <Keyboard size={14} className="flex-shrink-0" />}
+              <span className="truncate font-mono">
+                {isNumbered && `${step.actions.indexOf(action) + 1}. `}{describeAction(action, t)}
+              </span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrajectoryFrame;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+import { Button, Card } from './ui';
+import usePwa from '../hooks/usePwa';
+import { applyUpdate } from '../services/pwa';
+
+// Shown when the service worker has installed a newer deploy
+const UpdateToast = () => {
+  const { t } = useI18n();
+  const { isUpdateReady } = usePwa();
+
+  if (!isUpdateReady) return null;
+
+  return (
+    <Card variant="raised" role="status" className="flex items-center justify-between gap-4">
+      <p className="text-fg-muted">{t('pwa.updateReady')}</p>
+      <Button variant="primary" size="sm" className="flex-shrink-0" onClick={applyUpdate}>
+        <RefreshCw size={14} />
+        <span>{t('pwa.reload')}</span>
+      </Button>
+    </Card>
+  );
+};
+
+export default UpdateToast;
@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+import { Badge } from './ui';
+import { getLatestPost } from '../data/blog';
+
+// Holds the slug of the post that was dismissed, so a newer post shows again
+const STORAGE_KEY = 'whats-new-dismissed';
+
+const WhatsNewBanner = () => {
+  const { t, localizePath } = useI18n();
+  const post = getLatestPost();
+  // Hidden until mounted so prerendered markup matches for visitors who dismissed it
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    if (!post) return;
+    try {
+      setIsVisible(localStorage.getItem(STORAGE_KEY) !== post.slug);
+    } catch {
+      setIsVisible(true);
+    }
+  }, [post]);
+
+  if (!post || !isVisible) return null;
+
+  const dismiss = () => {
+    setIsVisible(false);
+    try {
+      localStorage.setItem(STORAGE_KEY, post.slug);
+    } catch {
+      // Stays dismissed for this page view only
+    }
+  };
+
+  return (
+    <div className="flex justify-center mb-6">
+      <div className="inline-flex items-center gap-2 max-w-full pl-1 pr-2 py-1 rounded-full border text-sm bg-surface border-line">
+        <Badge variant="inverse">{t('whatsNew.label')}</Badge>
+        <Link
+          to={localizePath(`/blog/${post.slug}`)}
+          className="inline-flex items-center gap-1 min-w-0 text-link hover:text-link-hover"
+        >
+          <span className="truncate">{post.title}</span>
+          <ArrowRight size={14} className="flex-shrink-0" />
+        </Link>
+        <button
+          onClick={dismiss}
+          aria-label={t('whatsNew.dismiss')}
+          className="p-0.5 rounded-full text-fg-subtle hover:text-link-hover"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WhatsNewBanner;
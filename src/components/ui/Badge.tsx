@@ -0,0 +1,37 @@
+import React from 'react';
+import BaseLink from './BaseLink';
+
+export type BadgeVariant = 'neutral' | 'inverse' | 'outline';
+
+const variantClasses: Record<BadgeVariant, string> = {
+  // Release status, blog tags
+  neutral: 'px-2 py-1 rounded-md text-fg-subtle bg-surface-muted',
+  // "New" labels
+  inverse: 'px-2 py-0.5 rounded-full font-medium bg-inverse text-inverse-fg',
+  // Filterable tags
+  outline: 'px-2 py-1 rounded-md border border-line text-fg-subtle',
+};
+
+export const badgeClassName = (variant: BadgeVariant = 'neutral', className = '') =>
+  `inline-block text-xs ${variantClasses[variant]} ${className}`.trim();
+
+interface BadgeProps {
+  variant?: BadgeVariant;
+  // Renders the badge as a link, e.g. a tag that filters the blog
+  href?: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const Badge = ({ variant = 'neutral', href, className = '', children }: BadgeProps) => {
+  if (href) {
+    return (
+      <BaseLink href={href} className={badgeClassName(variant, `hover:text-link-hover ${className}`)}>
+        {children}
+      </BaseLink>
+    );
+  }
+  return <span className={badgeClassName(variant, className)}>{children}</span>;
+};
+
+export default Badge;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Link, NavLink as RouterNavLink } from 'react-router-dom';
+import { useI18n } from '../I18nProvider';
+
+export interface BaseLinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  // Site paths ("/docs") are localized and routed client-side; anything else is a plain link
+  href: string;
+  // Marks the link with aria-current="page" on its route (site paths only)
+  isNav?: boolean;
+}
+
+const BaseLink = React.forwardRef<HTMLAnchorElement, BaseLinkProps>(({ href, isNav = false, children, ...props }, ref) => {
+  const { localizePath } = useI18n();
+
+  if (!href.startsWith('/')) {
+    return <a ref={ref} href={href} {...props}>{children}</a>;
+  }
+  const to = localizePath(href);
+  return isNav
+    ? <RouterNavLink ref={ref} to={to} {...props}>{children}</RouterNavLink>
+    : <Link ref={ref} to={to} {...props}>{children}</Link>;
+});
+
+BaseLink.displayName = 'BaseLink';
+
+export default BaseLink;
@@ -0,0 +1,37 @@
+import React from 'react';
+
+export type ButtonVariant = 'primary' | 'secondary';
+export type ButtonSize = 'md' | 'sm';
+
+export interface ButtonStyleProps {
+  // primary: filled call to action; secondary: outlined, for everything else
+  variant?: ButtonVariant;
+  // md: page-level calls to action; sm: the 32px pills used in the nav and toolbars
+  size?: ButtonSize;
+}
+
+const variantClasses: Record<ButtonVariant, string> = {
+  primary: 'bg-inverse text-inverse-fg hover:bg-inverse-hover',
+  secondary: 'border bg-surface border-line hover:border-line-strong text-link hover:text-link-hover',
+};
+
+const sizeClasses: Record<ButtonSize, string> = {
+  md: 'px-5 py-2.5',
+  sm: 'h-8 py-0 px-3',
+};
+
+/** Pill classes shared by Button and PillLink, for elements that cannot use either. */
+export const buttonClassName = ({ variant = 'secondary', size = 'md' }: ButtonStyleProps = {}, className = '') =>
+  `inline-flex items-center justify-center gap-2 rounded-full transition-[background-color,border-color,color] duration-200 ease-in-out disabled:opacity-50 disabled:pointer-events-none ${variantClasses[variant]} ${sizeClasses[size]} ${className}`.trim();
+
+type ButtonProps = ButtonStyleProps & React.ButtonHTMLAttributes<HTMLButtonElement>;
+
+const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(
+  ({ variant, size, className, type = 'button', ...props }, ref) => (
+    <button ref={ref} type={type} className={buttonClassName({ variant, size }, className)} {...props} />
+  )
+);
+
+Button.displayName = 'Button';
+
+export default Button;
@@ -0,0 +1,22 @@
+import React from 'react';
+
+export type CardVariant = 'outline' | 'interactive' | 'raised';
+
+const variantClasses: Record<CardVariant, string> = {
+  outline: 'p-6 border-line',
+  // For cards that are buttons or links
+  interactive: 'p-4 border-line hover:border-line-strong transition-colors',
+  // Floating panels such as toasts
+  raised: 'p-4 shadow-lg bg-surface-raised border-line text-sm',
+};
+
+type CardProps = React.HTMLAttributes<HTMLElement> & {
+  variant?: CardVariant;
+  as?: 'div' | 'section' | 'article' | 'li';
+};
+
+const Card = ({ variant = 'outline', as: Component = 'div', className = '', ...props }: CardProps) => (
+  <Component className={`rounded-xl border ${variantClasses[variant]} ${className}`.trim()} {...props} />
+);
+
+export default Card;
@@ -0,0 +1,111 @@
+import React, { useEffect, useRef } from 'react';
+
+export type ModalPosition = 'center' | 'top';
+
+interface ModalProps {
+  onClose: () => void;
+  // Accessible name: the id of a visible heading, or a label when there is none
+  labelledBy?: string;
+  label?: string;
+  // Focused on open; defaults to the first focusable element
+  initialFocusRef?: React.RefObject<HTMLElement>;
+  // top: search-style dialogs that grow downwards
+  position?: ModalPosition;
+  // Runs before the modal's own handling; call preventDefault() to take over a key
+  onKeyDown?: (event: React.KeyboardEvent<HTMLDivElement>) => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select, textarea, video[controls], [tabindex]:not([tabindex="-1"])';
+
+const positionClasses: Record<ModalPosition, string> = {
+  center: 'items-center',
+  top: 'items-start pt-[12vh]',
+};
+
+/**
+ * Dialog over a blurred backdrop: Escape or a backdrop click closes it, Tab
+ * stays inside, page scroll is locked and focus returns to the opener on close.
+ * Render it only while open.
+ */
+const Modal = ({
+  onClose,
+  labelledBy,
+  label,
+  initialFocusRef,
+  position = 'center',
+  onKeyDown,
+  className = '',
+  children,
+}: ModalProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  // Latest props for the mount effect and handlers, so the focus and scroll
+  // lock below runs once per open rather than on every re-render of the owner
+  const onCloseRef = useRef(onClose);
+  const latestInitialFocusRef = useRef(initialFocusRef);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+    latestInitialFocusRef.current = initialFocusRef;
+  });
+
+  useEffect(() => {
+    // The owner document rather than the global one, so the modal also works in an iframe
+    const ownerDocument = dialogRef.current?.ownerDocument ?? document;
+    const previouslyFocused = ownerDocument.activeElement as HTMLElement | null;
+    const previousOverflow = ownerDocument.body.style.overflow;
+    ownerDocument.body.style.overflow = 'hidden';
+    (latestInitialFocusRef.current?.current ?? dialogRef.current?.querySelector<HTMLElement>(FOCUSABLE))?.focus();
+
+    return () => {
+      ownerDocument.body.style.overflow = previousOverflow;
+      previouslyFocused?.focus();
+    };
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    onKeyDown?.(event);
+    if (event.defaultPrevented) return;
+
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      onCloseRef.current();
+    } else if (event.key === 'Tab' && dialogRef.current) {
+      const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+      if (focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const { activeElement } = dialogRef.current.ownerDocument;
+      if (event.shiftKey && activeElement === first) {
+        event.preventDefault();
+        last.focus();
+      } else if (!event.shiftKey && activeElement === last) {
+        event.preventDefault();
+        first.focus();
+      }
+    }
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 z-[60] flex justify-center p-4 bg-black/50 backdrop-blur-sm ${positionClasses[position]}`}
+      onClick={() => onCloseRef.current()}
+      data-testid="modal-backdrop"
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={labelledBy}
+        aria-label={labelledBy ? undefined : label}
+        className={`w-full ${className}`}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default Modal;
@@ -0,0 +1,20 @@
+import React from 'react';
+import BaseLink, { BaseLinkProps } from './BaseLink';
+
+export type NavLinkVariant = 'header' | 'footer';
+
+const variantClasses: Record<NavLinkVariant, string> = {
+  header: 'text-link hover:text-link-hover',
+  footer: 'text-fg-subtle hover:text-link-hover',
+};
+
+type NavLinkProps = Omit<BaseLinkProps, 'isNav'> & {
+  variant?: NavLinkVariant;
+};
+
+/** Plain text link for the header, mobile menu and footer; site links get aria-current on their page. */
+const NavLink = ({ variant = 'header', className = '', ...props }: NavLinkProps) => (
+  <BaseLink isNav className={`${variantClasses[variant]} ${className}`.trim()} {...props} />
+);
+
+export default NavLink;
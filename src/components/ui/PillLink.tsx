@@ -0,0 +1,14 @@
+import React from 'react';
+import BaseLink, { BaseLinkProps } from './BaseLink';
+import { ButtonStyleProps, buttonClassName } from './Button';
+
+type PillLinkProps = ButtonStyleProps & Omit<BaseLinkProps, 'isNav'>;
+
+/** A link styled like Button, e.g. the nav GitHub pill or the waitlist call to action. */
+const PillLink = React.forwardRef<HTMLAnchorElement, PillLinkProps>(({ variant, size, className, ...props }, ref) => (
+  <BaseLink ref={ref} className={buttonClassName({ variant, size }, className)} {...props} />
+));
+
+PillLink.displayName = 'PillLink';
+
+export default PillLink;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Button from '../Button';
+
+describe('Button', () => {
+  it('is a non-submitting button by default', () => {
+    const onSubmit = jest.fn((event: React.FormEvent) => event.preventDefault());
+    render(
+      <form onSubmit={onSubmit}>
+        <Button>Plain</Button>
+        <Button type="submit">Send</Button>
+      </form>
+    );
+    expect(screen.getByRole('button', { name: 'Plain' })).toHaveAttribute('type', 'button');
+
+    userEvent.click(screen.getByRole('button', { name: 'Plain' }));
+    expect(onSubmit).not.toHaveBeenCalled();
+    userEvent.click(screen.getByRole('button', { name: 'Send' }));
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('activates with Enter and Space', () => {
+    const onClick = jest.fn();
+    render(<Button onClick={onClick}>Run</Button>);
+
+    userEvent.tab();
+    expect(screen.getByRole('button', { name: 'Run' })).toHaveFocus();
+    userEvent.keyboard('{Enter}');
+    expect(onClick).toHaveBeenCalledTimes(1);
+    userEvent.keyboard('[Space]');
+    expect(onClick).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores clicks and is skipped by Tab when disabled', () => {
+    const onClick = jest.fn();
+    render(
+      <>
+        <Button onClick={onClick} disabled>
+          Disabled
+        </Button>
+        <Button>Enabled</Button>
+      </>
+    );
+    const disabled = screen.getByRole('button', { name: 'Disabled' });
+    expect(disabled).toBeDisabled();
+
+    userEvent.click(disabled);
+    expect(onClick).not.toHaveBeenCalled();
+    userEvent.tab();
+    expect(screen.getByRole('button', { name: 'Enabled' })).toHaveFocus();
+  });
+
+  it('forwards its ref and merges extra classes', () => {
+    const ref = React.createRef<HTMLButtonElement>();
+    render(
+      <Button ref={ref} className="extra">
+        Ref
+      </Button>
+    );
+    expect(ref.current).toBe(screen.getByRole('button', { name: 'Ref' }));
+    expect(ref.current).toHaveClass('rounded-full', 'extra');
+  });
+});
@@ -0,0 +1,115 @@
+import React, { useRef, useState } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Modal from '../Modal';
+
+interface DemoProps {
+  onClose?: () => void;
+  onKeyDown?: (event: React.KeyboardEvent<HTMLDivElement>) => void;
+  withInitialFocus?: boolean;
+}
+
+// An opener button and a modal with three focusable controls
+const Demo = ({ onClose = () => {}, onKeyDown, withInitialFocus = false }: DemoProps) => {
+  const [isOpen, setOpen] = useState(false);
+  const initialFocusRef = useRef<HTMLButtonElement>(null);
+  const close = () => {
+    onClose();
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <button onClick={() => setOpen(true)}>Open</button>
+      {isOpen && (
+        <Modal
+          onClose={close}
+          label="Demo"
+          onKeyDown={onKeyDown}
+          initialFocusRef={withInitialFocus ? initialFocusRef : undefined}
+        >
+          <button>First</button>
+          <input aria-label="Middle" />
+          <button ref={initialFocusRef}>Last</button>
+        </Modal>
+      )}
+    </>
+  );
+};
+
+const open = () => userEvent.click(screen.getByRole('button', { name: 'Open' }));
+
+describe('Modal', () => {
+  it('renders a labelled modal dialog', () => {
+    render(<Demo />);
+    open();
+    const dialog = screen.getByRole('dialog', { name: 'Demo' });
+    expect(dialog).toHaveAttribute('aria-modal', 'true');
+  });
+
+  it('focuses the first focusable element, or initialFocusRef when given', () => {
+    const { unmount } = render(<Demo />);
+    open();
+    expect(screen.getByRole('button', { name: 'First' })).toHaveFocus();
+    unmount();
+
+    render(<Demo withInitialFocus />);
+    open();
+    expect(screen.getByRole('button', { name: 'Last' })).toHaveFocus();
+  });
+
+  it('closes on Escape and returns focus to the opener', () => {
+    const onClose = jest.fn();
+    render(<Demo onClose={onClose} />);
+    open();
+    userEvent.keyboard('{Escape}');
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Open' })).toHaveFocus();
+  });
+
+  it('keeps Tab inside the dialog', () => {
+    render(<Demo />);
+    open();
+    const first = screen.getByRole('button', { name: 'First' });
+    const last = screen.getByRole('button', { name: 'Last' });
+
+    userEvent.tab();
+    expect(screen.getByRole('textbox', { name: 'Middle' })).toHaveFocus();
+    userEvent.tab();
+    expect(last).toHaveFocus();
+    userEvent.tab();
+    expect(first).toHaveFocus();
+    userEvent.tab({ shift: true });
+    expect(last).toHaveFocus();
+  });
+
+  it('closes on a backdrop click but not on a click inside', () => {
+    const onClose = jest.fn();
+    render(<Demo onClose={onClose} />);
+    open();
+
+    userEvent.click(screen.getByRole('button', { name: 'First' }));
+    expect(onClose).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByTestId('modal-backdrop'));
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets onKeyDown take over a key with preventDefault', () => {
+    const onClose = jest.fn();
+    render(<Demo onClose={onClose} onKeyDown={(event) => event.key === 'Escape' && event.preventDefault()} />);
+    open();
+    userEvent.keyboard('{Escape}');
+    expect(onClose).not.toHaveBeenCalled();
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+  });
+
+  it('locks page scroll while open', () => {
+    document.body.style.overflow = 'auto';
+    render(<Demo />);
+    open();
+    expect(document.body.style.overflow).toBe('hidden');
+    userEvent.keyboard('{Escape}');
+    expect(document.body.style.overflow).toBe('auto');
+  });
+});
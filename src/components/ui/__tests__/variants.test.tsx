@@ -0,0 +1,54 @@
+import React from 'react';
+import { screen } from '@testing-library/react';
+import { renderWithProviders } from '../../../testUtils';
+import { Badge, Button, ButtonSize, ButtonVariant, Card, CardVariant, Modal, NavLink, PillLink } from '..';
+
+const THEMES = ['light', 'dark'] as const;
+const BUTTON_VARIANTS: ButtonVariant[] = ['primary', 'secondary'];
+const BUTTON_SIZES: ButtonSize[] = ['md', 'sm'];
+const CARD_VARIANTS: CardVariant[] = ['outline', 'interactive', 'raised'];
+
+const cases: [string, React.ReactElement][] = [
+  ...BUTTON_VARIANTS.flatMap((variant) =>
+    BUTTON_SIZES.map((size): [string, React.ReactElement] => [
+      `Button ${variant} ${size}`,
+      <Button variant={variant} size={size}>Label</Button>,
+    ])
+  ),
+  ['Button disabled', <Button disabled>Label</Button>],
+  ...BUTTON_VARIANTS.flatMap((variant) =>
+    BUTTON_SIZES.map((size): [string, React.ReactElement] => [
+      `PillLink ${variant} ${size}`,
+      <PillLink href="/docs" variant={variant} size={size}>Label</PillLink>,
+    ])
+  ),
+  ['PillLink external', <PillLink href="https://github.com/trycua" target="_blank" rel="noopener noreferrer">Label</PillLink>],
+  ['NavLink header', <NavLink href="/docs">Label</NavLink>],
+  ['NavLink footer', <NavLink href="/docs" variant="footer">Label</NavLink>],
+  ['NavLink current page', <NavLink href="/">Label</NavLink>],
+  ...CARD_VARIANTS.map((variant): [string, React.ReactElement] => [`Card ${variant}`, <Card variant={variant}>Body</Card>]),
+  ['Card as article', <Card as="article">Body</Card>],
+  ['Badge neutral', <Badge>Label</Badge>],
+  ['Badge inverse', <Badge variant="inverse">Label</Badge>],
+  ['Badge outline', <Badge variant="outline">Label</Badge>],
+  ['Badge link', <Badge href="/blog">Label</Badge>],
+  ['Modal center', <Modal onClose={() => {}} label="Dialog"><button>Close</button></Modal>],
+  ['Modal top', <Modal onClose={() => {}} label="Dialog" position="top"><button>Close</button></Modal>],
+];
+
+// The theme class sits on <html> as ThemeProvider sets it, and on the snapshot
+// root so each snapshot records the theme it was taken in
+describe.each(THEMES)('%s theme', (theme) => {
+  beforeEach(() => {
+    document.documentElement.classList.toggle('dark', theme === 'dark');
+  });
+
+  afterAll(() => {
+    document.documentElement.classList.remove('dark');
+  });
+
+  it.each(cases)('%s', (_name, element) => {
+    renderWithProviders(<div data-testid="theme-root" className={theme}>{element}</div>);
+    expect(screen.getByTestId('theme-root')).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,12 @@
+// Shared UI primitives; the development-only explorer at /components shows every variant
+export { default as Badge, badgeClassName } from './Badge';
+export type { BadgeVariant } from './Badge';
+export { default as Button, buttonClassName } from './Button';
+export type { ButtonSize, ButtonStyleProps, ButtonVariant } from './Button';
+export { default as Card } from './Card';
+export type { CardVariant } from './Card';
+export { default as Modal } from './Modal';
+export type { ModalPosition } from './Modal';
+export { default as NavLink } from './NavLink';
+export type { NavLinkVariant } from './NavLink';
+export { default as PillLink } from './PillLink';
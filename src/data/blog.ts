@@ -0,0 +1,52 @@
+// Compiled from blog/*.md and GitHub releases by scripts/build-blog.js, newest first
+import compiledPosts from '../generated/blog.json';
+
+export interface BlogPost {
+  slug: string;
+  title: string;
+  // ISO 8601
+  date: string;
+  author: string;
+  tags: string[];
+  summary: string;
+  html: string;
+  // Releases link back to their GitHub release page
+  kind: 'post' | 'release';
+  url: string | null;
+}
+
+export interface BlogPage {
+  posts: BlogPost[];
+  page: number;
+  pageCount: number;
+}
+
+export const POSTS_PER_PAGE = 5;
+
+const posts = compiledPosts as BlogPost[];
+
+export const getPost = (slug: string | undefined): BlogPost | undefined =>
+  posts.find((post) => post.slug === slug);
+
+export const getLatestPost = (): BlogPost | undefined => posts[0];
+
+// Every tag in use, most used first
+export const getBlogTags = (): string[] => {
+  const counts = new Map<string, number>();
+  posts.forEach((post) => post.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+};
+
+/** One page of posts, optionally limited to a tag. Out-of-range pages clamp to the nearest one. */
+export const paginatePosts = (tag: string | null, page: number): BlogPage => {
+  const matching = tag ? posts.filter((post) => post.tags.includes(tag)) : posts;
+  const pageCount = Math.max(1, Math.ceil(matching.length / POSTS_PER_PAGE));
+  const current = Math.min(Math.max(1, Math.floor(page) || 1), pageCount);
+  return {
+    posts: matching.slice((current - 1) * POSTS_PER_PAGE, current * POSTS_PER_PAGE),
+    page: current,
+    pageCount,
+  };
+};
+
+export default posts;
@@ -0,0 +1,59 @@
+// Curated entries compiled from community.yaml by scripts/build-community.js, and
+// the contributor snapshot from scripts/snapshot-contributors.js
+import compiledCommunity from '../generated/community.json';
+import contributorSnapshot from '../generated/github-contributors.json';
+
+export interface CommunityEntry {
+  title: string;
+  description: string;
+  url: string | null;
+  // Example run id for the trajectory viewer (workflows only)
+  trajectory: string | null;
+  // GitHub login
+  author: string;
+  tags: string[];
+}
+
+interface RepoContributor {
+  login: string;
+  avatarUrl: string;
+  profileUrl: string;
+  contributions: number;
+}
+
+export interface Contributor extends RepoContributor {
+  // Repos contributed to, by number of commits
+  repos: string[];
+}
+
+interface ContributorSnapshot {
+  generatedAt: string | null;
+  repos: Record<string, RepoContributor[]>;
+}
+
+const community = compiledCommunity as { projects: CommunityEntry[]; workflows: CommunityEntry[] };
+const snapshot = contributorSnapshot as ContributorSnapshot;
+
+export const communityProjects = community.projects;
+export const communityWorkflows = community.workflows;
+export const contributorsUpdatedAt = snapshot.generatedAt;
+
+/** Contributors across all snapshotted repos with their commits summed, most commits first. */
+export const getContributors = (): Contributor[] => {
+  const byLogin = new Map<string, Contributor & { commitsByRepo: Record<string, number> }>();
+  Object.entries(snapshot.repos).forEach(([repo, contributors]) => {
+    contributors.forEach((contributor) => {
+      const entry = byLogin.get(contributor.login) ?? { ...contributor, contributions: 0, repos: [], commitsByRepo: {} };
+      entry.contributions += contributor.contributions;
+      entry.commitsByRepo[repo] = contributor.contributions;
+      byLogin.set(contributor.login, entry);
+    });
+  });
+
+  return Array.from(byLogin.values())
+    .map(({ commitsByRepo, ...contributor }) => ({
+      ...contributor,
+      repos: Object.keys(commitsByRepo).sort((a, b) => commitsByRepo[b] - commitsByRepo[a]),
+    }))
+    .sort((a, b) => b.contributions - a.contributions || a.login.localeCompare(b.login));
+};
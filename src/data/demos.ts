@@ -0,0 +1,31 @@
+export interface MediaChapter {
+  // Seconds from the start of the video
+  time: number;
+  title: string;
+}
+
+export interface MediaItem {
+  id: string;
+  title: string;
+  src: string;
+  poster?: string;
+  // WebVTT subtitle tracks
+  captions?: { src: string; label: string; srcLang: string }[];
+  chapters?: MediaChapter[];
+}
+
+// Demo videos shown by "Watch Demo"; `id` is the ?demo= deep-link value
+const demos: MediaItem[] = [
+  {
+    id: 'notebook',
+    title: 'Notebook Demo',
+    src: '/demo_notebook.mp4',
+  },
+  {
+    id: 'gradio',
+    title: 'Gradio Demo',
+    src: '/demo_gradio.mp4',
+  },
+];
+
+export default demos;
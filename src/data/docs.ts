@@ -0,0 +1,24 @@
+// Compiled from docs/*.md by scripts/build-docs.js
+import compiledDocs from '../generated/docs.json';
+
+export interface DocHeading {
+  id: string;
+  text: string;
+  level: number;
+}
+
+export interface Doc {
+  slug: string;
+  title: string;
+  description: string;
+  order: number;
+  html: string;
+  headings: DocHeading[];
+}
+
+const docs: Doc[] = compiledDocs;
+
+export const getDoc = (slug: string | undefined): Doc | undefined =>
+  docs.find((doc) => doc.slug === slug);
+
+export default docs;
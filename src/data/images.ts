@@ -0,0 +1,65 @@
+// Checked-in manifest of the VM images published to GHCR
+import imageManifest from './images.json';
+
+export type ImageOs = 'macos' | 'linux';
+
+export interface VmImage {
+  name: string;
+  tag: string;
+  os: ImageOs;
+  osName: string;
+  version: string;
+  // Approximate download size
+  sizeGb: number;
+  description: string;
+  tags: string[];
+  updated: string;
+}
+
+export type ImageSort = 'name' | 'size' | 'updated' | 'version';
+
+export interface ImageFilters {
+  query: string;
+  os: ImageOs | 'all';
+  version: string | 'all';
+  sort: ImageSort;
+}
+
+export const imageOsLabels: Record<ImageOs, string> = {
+  macos: 'macOS',
+  linux: 'Linux',
+};
+
+const images = imageManifest as VmImage[];
+
+export const getPullCommand = (image: VmImage): string => `lume pull ${image.name}:${image.tag}`;
+
+export const getPackageUrl = (image: VmImage): string =>
+  `https://github.com/orgs/trycua/packages/container/package/${image.name}`;
+
+export const getImageVersions = (os: ImageOs | 'all'): string[] =>
+  Array.from(new Set(images.filter((image) => os === 'all' || image.os === os).map((image) => image.version)))
+    .sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+
+const compareImages: Record<ImageSort, (a: VmImage, b: VmImage) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name),
+  size: (a, b) => a.sizeGb - b.sizeGb,
+  updated: (a, b) => b.updated.localeCompare(a.updated),
+  version: (a, b) => b.version.localeCompare(a.version, undefined, { numeric: true }),
+};
+
+export const filterImages = ({ query, os, version, sort }: ImageFilters): VmImage[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return images
+    .filter((image) => os === 'all' || image.os === os)
+    .filter((image) => version === 'all' || image.version === version)
+    .filter((image) => {
+      const haystack = [image.name, image.tag, image.osName, image.version, image.description, ...image.tags]
+        .join(' ')
+        .toLowerCase();
+      return terms.every((term) => haystack.includes(term));
+    })
+    .sort(compareImages[sort]);
+};
+
+export default images;
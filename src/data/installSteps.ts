@@ -0,0 +1,43 @@
+import { SnippetTab } from '../components/CodeSnippet';
+
+// Step copy lives in the i18n catalogs as install.<id>.title, .description and .link
+export interface InstallStep {
+  id: string;
+  // Optional link shown under the description
+  link?: { href: string };
+  tabs: SnippetTab[];
+}
+
+const installSteps: InstallStep[] = [
+  {
+    id: 'install-lume',
+    tabs: [
+      {
+        label: 'Shell',
+        code: '/bin/bash -c "$(curl -fsSL https://raw.githubusercontent.com/trycua/lume/main/scripts/install.sh)"',
+      },
+      {
+        label: 'Homebrew',
+        code: 'brew tap trycua/lume\nbrew install lume',
+      },
+    ],
+  },
+  {
+    id: 'pull-image',
+    link: { href: '/images' },
+    tabs: [
+      { label: 'macOS', code: 'lume pull macos-sequoia-vanilla:latest' },
+      { label: 'macOS + Xcode', code: 'lume pull macos-sequoia-xcode:latest' },
+      { label: 'Ubuntu', code: 'lume pull ubuntu-noble-vanilla:latest' },
+    ],
+  },
+  {
+    id: 'run-vm',
+    tabs: [
+      { label: 'With display', code: 'lume run macos-sequoia-vanilla_latest' },
+      { label: 'Headless', code: 'lume run macos-sequoia-vanilla_latest --no-display' },
+    ],
+  },
+];
+
+export default installSteps;
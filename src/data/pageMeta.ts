@@ -0,0 +1,116 @@
+import products, { getProduct, hasProductPage } from './products';
+import posts, { getPost } from './blog';
+import docs, { getDoc } from './docs';
+import { DEFAULT_LOCALE, LOCALES, Locale, getPathLocale, localizePath, stripLocale } from '../i18n/locales';
+
+export const SITE_URL = 'https://trycua.github.io';
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  path: string;
+  image: string;
+  locale: Locale;
+  // The same page in every locale, for hreflang links
+  alternates: { locale: Locale; path: string }[];
+}
+
+const DEFAULT_TITLE = 'Cua: macOS & Linux Sandbox | Computer-Use Interface & AI Agent on Apple Silicon';
+const DEFAULT_DESCRIPTION = 'Cua - Create and run local macOS and Linux sandbox with near-native performance on Apple Silicon with Lume. Features a computer-use interface (CUI) and a computer-use AI agent (CUA) for multi-app agentic workflow automation.';
+const DEFAULT_IMAGE = `${SITE_URL}/logo512.png`;
+
+/** Title, description and share image for a route, used by the prerenderer and on navigation. */
+export const getPageMeta = (pathname: string): PageMeta => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const locale = getPathLocale(path);
+  const alternates = LOCALES.map((alternate) => ({ locale: alternate, path: localizePath(stripLocale(path), alternate) }));
+  const base = { title: DEFAULT_TITLE, description: DEFAULT_DESCRIPTION, path, image: DEFAULT_IMAGE, locale, alternates };
+
+  const pagePath = stripLocale(path);
+  const docMatch = pagePath.match(/^\/docs\/([\w-]+)$/);
+  if (docMatch) {
+    const doc = getDoc(docMatch[1]);
+    if (doc) {
+      return { ...base, title: `${doc.title} | Cua Docs`, description: doc.description || DEFAULT_DESCRIPTION };
+    }
+  }
+
+  const postMatch = pagePath.match(/^\/blog\/([\w-]+)$/);
+  if (postMatch) {
+    const post = getPost(postMatch[1]);
+    if (post) {
+      return { ...base, title: `${post.title} | Cua Blog`, description: post.summary || DEFAULT_DESCRIPTION };
+    }
+  }
+
+  if (pagePath === '/docs') {
+    return { ...base, title: 'Docs | Cua', description: 'Guides and reference for Lume, Computer and Agent.' };
+  }
+
+  if (pagePath === '/blog') {
+    return { ...base, title: 'Blog | Cua', description: 'Release notes and progress updates on Lume, Computer and Agent.' };
+  }
+
+  if (pagePath === '/images') {
+    return { ...base, title: 'Images | Cua', description: 'Browse prebuilt macOS and Linux VM images for Lume and copy the lume pull command.' };
+  }
+
+  if (pagePath === '/playground') {
+    return { ...base, title: 'Playground | Cua', description: 'Run Computer interface calls against a simulated macOS desktop in your browser, no VM required.' };
+  }
+
+  if (pagePath === '/trajectories') {
+    return { ...base, title: 'Trajectory viewer | Cua', description: 'Step through Agent run logs with screenshots, reasoning and action overlays, right in your browser.' };
+  }
+
+  if (pagePath === '/requirements') {
+    return { ...base, title: 'System requirements | Cua', description: 'Which Macs run Lume: chip, macOS version, RAM, disk, guest OSes and VM features, with a check for your own machine.' };
+  }
+
+  if (pagePath === '/community') {
+    return { ...base, title: 'Community | Cua', description: 'Contributors to the trycua repos, featured community projects and agent workflows built with Cua.' };
+  }
+
+  if (pagePath === '/waitlist') {
+    return { ...base, title: 'Join the waitlist | Cua', description: 'Get early access to Cua Computer and Agent.' };
+  }
+
+  const product = getProduct(pagePath.slice(1));
+  if (product && hasProductPage(product)) {
+    return { ...base, title: `${product.name} | Cua`, description: `${product.tagline} ${product.description}` };
+  }
+
+  return base;
+};
+
+const pageRoutes = (): string[] => [
+  '/',
+  '/images',
+  '/playground',
+  '/trajectories',
+  '/requirements',
+  '/community',
+  '/waitlist',
+  ...products.filter(hasProductPage).map((product) => `/${product.id}`),
+  '/docs',
+  ...docs.map((doc) => `/docs/${doc.slug}`),
+  '/blog',
+  ...posts.map((post) => `/blog/${post.slug}`),
+];
+
+// Prerendered pages the service worker caches on install; everything else
+// falls back to the app shell when offline
+export const getOfflineRoutes = (): string[] => [
+  '/',
+  // Runs entirely in the browser, so it works offline once cached
+  '/playground',
+  ...docs.map((doc) => `/docs/${doc.slug}`),
+];
+
+// Every route that gets a static HTML file at build time, in every locale
+export const getPrerenderRoutes = (): string[] => [
+  ...pageRoutes(),
+  ...LOCALES.filter((locale) => locale !== DEFAULT_LOCALE).flatMap((locale) =>
+    pageRoutes().map((route) => localizePath(route, locale))
+  ),
+];
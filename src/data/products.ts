@@ -0,0 +1,124 @@
+import { Bot, Monitor, Server, LucideIcon } from 'lucide-react';
+
+// Release stage of a product; 'coming-soon' products render as a disabled card
+export type ProductStatus = 'ga' | 'early-preview' | 'coming-soon';
+
+export interface ProductLink {
+  label: string;
+  // Site paths start with "/" and are localized; anything else is external
+  href: string;
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  icon: LucideIcon;
+  description: string;
+  status: ProductStatus;
+  repoUrl: string;
+  // Site path or external URL of the product's main documentation
+  docsUrl: string;
+  // owner/name of the GitHub repo whose stats are shown for the product
+  githubRepo: string;
+  // Detail page content
+  tagline: string;
+  features: string[];
+  architecture: string[];
+  install: string;
+  // Detail page links after the repo and docs
+  extraLinks: ProductLink[];
+}
+
+/** Repo and docs from the manifest, then the product's extra links. */
+export const getProductLinks = (product: Product): ProductLink[] => [
+  { label: 'GitHub', href: product.repoUrl },
+  { label: 'Docs', href: product.docsUrl },
+  ...product.extraLinks,
+];
+
+export const hasProductPage = (product: Product): boolean => product.status !== 'coming-soon';
+
+export const getProduct = (id: string | undefined): Product | undefined =>
+  products.find((product) => product.id === id);
+
+const products: Product[] = [
+  {
+    id: 'lume',
+    name: 'Lume',
+    icon: Server,
+    description: 'Virtualization layer to run macOS & Linux sandboxes (VMs / VMs on Docker), powered by Apple Virtualization.framework',
+    status: 'ga',
+    repoUrl: 'https://github.com/trycua/lume',
+    docsUrl: '/docs/faq',
+    githubRepo: 'trycua/lume',
+    tagline: 'Local macOS & Linux sandboxes with near-native performance on Apple Silicon.',
+    features: [
+      'Create, run and manage macOS and Linux VMs from a single CLI',
+      'Near-native performance through Apple Virtualization.framework',
+      'Pull prebuilt images from the GitHub Container Registry',
+      'Local HTTP API server for automating VM lifecycles',
+      'Run VMs on Docker through the lume Docker image',
+    ],
+    architecture: [
+      'Lume is a lightweight Swift binary that wraps Apple Virtualization.framework. Each VM is a directory holding its disk image, NVRAM and configuration, so sandboxes can be copied, cloned and versioned like any other files.',
+      'The CLI and the built-in API server share the same VM manager, which means anything you can do from the terminal can also be scripted over HTTP by the Computer interface or your own tooling.',
+    ],
+    install: '/bin/bash -c "$(curl -fsSL https://raw.githubusercontent.com/trycua/lume/main/scripts/install.sh)"',
+    extraLinks: [
+      { label: 'Images', href: '/images' },
+      { label: 'System requirements', href: '/requirements' },
+    ],
+  },
+  {
+    id: 'computer',
+    name: 'Computer',
+    icon: Monitor,
+    description: 'A Computer Use Interface (CUI) framework for interacting with sandboxes, PyAutoGUI-compatible, and pluggable with any AI agent.',
+    status: 'early-preview',
+    repoUrl: 'https://github.com/trycua/cua/tree/main/libs/computer',
+    docsUrl: 'https://github.com/trycua/cua/blob/main/libs/computer/README.md',
+    githubRepo: 'trycua/cua',
+    tagline: 'A Computer Use Interface (CUI) for driving sandboxes from code.',
+    features: [
+      'PyAutoGUI-compatible mouse, keyboard and screenshot API',
+      'Works against Lume macOS and Linux sandboxes',
+      'Accessibility tree access for structured UI inspection',
+      'Pluggable with any AI agent or automation framework',
+    ],
+    architecture: [
+      'Computer runs a small server inside the sandbox that executes input and screen commands. The Python client talks to it over a WebSocket, so the same script drives a local VM or a remote one.',
+      'Sandboxes are provisioned through the Lume API server, letting Computer start, stop and snapshot VMs as part of a session.',
+    ],
+    install: 'pip install cua-computer',
+    extraLinks: [
+      { label: 'Playground', href: '/playground' },
+    ],
+  },
+  {
+    id: 'agent',
+    name: 'Agent',
+    icon: Bot,
+    description: 'A state-of-the-art Computer Use AI Agent (CUA) for multi-app workflows on macOS/Linux, supporting local (Ollama) and cloud models.',
+    status: 'early-preview',
+    repoUrl: 'https://github.com/trycua/cua/tree/main/libs/agent',
+    docsUrl: 'https://github.com/trycua/cua/blob/main/libs/agent/README.md',
+    githubRepo: 'trycua/cua',
+    tagline: 'A Computer Use AI Agent (CUA) for multi-app workflows.',
+    features: [
+      'Plans and executes multi-app workflows on macOS and Linux',
+      'Supports local models through Ollama as well as cloud providers',
+      'Built on the Computer interface, so every action is sandboxed',
+      'Step-by-step trajectories with screenshots and reasoning',
+    ],
+    architecture: [
+      'Agent runs a perceive, reason and act loop: it captures the screen through Computer, asks the model for the next action and executes it in the sandbox.',
+      'Model providers are pluggable loops, so switching between a local Ollama model and a hosted model is a configuration change rather than a rewrite.',
+    ],
+    install: 'pip install "cua-agent[all]"',
+    extraLinks: [
+      { label: 'Trajectory viewer', href: '/trajectories' },
+    ],
+  },
+];
+
+export default products;
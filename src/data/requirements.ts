@@ -0,0 +1,68 @@
+// Host compatibility matrix for Lume, shown on /requirements
+import requirementRows from './requirements.json';
+import { PlatformInfo } from '../services/platform';
+
+export type FeatureStatus = 'yes' | 'partial' | 'no';
+
+export interface FeatureSupport {
+  status: FeatureStatus;
+  note?: string;
+}
+
+// Inclusive bounds; a missing bound is open-ended
+interface VersionRange {
+  min?: number;
+  max?: number;
+}
+
+export interface RequirementRow {
+  id: string;
+  arch: 'apple-silicon' | 'intel';
+  chip: string;
+  // Apple Silicon generations, e.g. 3 for the M3 family
+  generations?: VersionRange;
+  macos: string;
+  // macOS major versions
+  macosVersions: VersionRange;
+  supported: boolean;
+  // Why a combination is unsupported
+  note?: string;
+  ramGb?: { minimum: number; recommended: number };
+  // Free disk space per VM
+  diskGb?: number;
+  guests: string[];
+  features: {
+    dockerInVm: FeatureSupport;
+    gpu: FeatureSupport;
+  };
+}
+
+const requirements = requirementRows as RequirementRow[];
+
+const inRange = (value: number, { min, max }: VersionRange) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+/**
+ * Rows matching a detected platform. Unknown details (chip generation, macOS
+ * version) match every row, so a partial guess highlights several rows; an
+ * empty list means the platform can't run Lume or couldn't be identified.
+ */
+export const matchRequirements = (platform: PlatformInfo): RequirementRow[] => {
+  if (platform.os !== 'macos' || platform.isAppleSilicon === null) {
+    return [];
+  }
+  if (!platform.isAppleSilicon) {
+    return requirements.filter((row) => row.arch === 'intel');
+  }
+
+  const generation = platform.chip ? parseInt(platform.chip.slice(1), 10) : NaN;
+  const macosVersion = platform.osVersion ? parseInt(platform.osVersion, 10) : NaN;
+  return requirements.filter(
+    (row) =>
+      row.arch === 'apple-silicon' &&
+      (Number.isNaN(generation) || !row.generations || inRange(generation, row.generations)) &&
+      (Number.isNaN(macosVersion) || inRange(macosVersion, row.macosVersions))
+  );
+};
+
+export default requirements;
@@ -0,0 +1,91 @@
+// Collects the site's content into search documents. Bundled and run at build
+// time by scripts/build-search-index.js; never imported by the client bundle.
+import posts from './blog';
+import docs, { Doc } from './docs';
+import images, { getPullCommand, imageOsLabels } from './images';
+import { getPageMeta } from './pageMeta';
+import products, { hasProductPage } from './products';
+import { translate } from '../i18n/locales';
+import { SearchDocument } from '../services/search';
+
+const TEXT_LENGTH = 600;
+
+const toPlainText = (html: string): string =>
+  html
+    .replace(/<a class="anchor"[^>]*>#<\/a>/g, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&#39;/g, '\'')
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, TEXT_LENGTH);
+
+// Pages share their title and description with the meta tags, minus the site suffix
+const pageDocument = (id: string, url: string): SearchDocument => {
+  const { title, description } = getPageMeta(url);
+  return { id: `page:${id}`, type: 'page', title: title.replace(/ \| Cua$/, ''), text: description, url };
+};
+
+// One document for the intro of each doc, plus one per h2/h3 section
+const docSections = (doc: Doc): SearchDocument[] => {
+  const [intro, ...sections] = doc.html.split(/(?=<h[23] id=")/);
+  return [
+    {
+      id: `doc:${doc.slug}`,
+      type: 'doc',
+      title: doc.title,
+      text: `${doc.description} ${toPlainText(intro)}`.trim(),
+      url: `/docs/${doc.slug}`,
+    },
+    ...sections.map((section): SearchDocument => {
+      const id = section.match(/^<h[23] id="([^"]+)"/)![1];
+      const heading = doc.headings.find((entry) => entry.id === id);
+      return {
+        id: `doc:${doc.slug}#${id}`,
+        type: 'doc',
+        title: heading?.text ?? id,
+        context: doc.title,
+        text: toPlainText(section.replace(/^<h[23][^>]*>[\s\S]*?<\/h[23]>/, '')),
+        url: `/docs/${doc.slug}#${id}`,
+      };
+    }),
+  ];
+};
+
+export const getSearchDocuments = (): SearchDocument[] => [
+  { id: 'page:home', type: 'page', title: 'Home', text: `${translate('en', 'home.title')} ${translate('en', 'home.subtitle')}`, url: '/' },
+  pageDocument('images', '/images'),
+  pageDocument('playground', '/playground'),
+  pageDocument('trajectories', '/trajectories'),
+  pageDocument('requirements', '/requirements'),
+  pageDocument('community', '/community'),
+  pageDocument('waitlist', '/waitlist'),
+  pageDocument('docs', '/docs'),
+  pageDocument('blog', '/blog'),
+  ...products.filter(hasProductPage).map((product): SearchDocument => ({
+    id: `product:${product.id}`,
+    type: 'product',
+    title: product.name,
+    text: [product.tagline, product.description, ...product.features].join(' ').slice(0, TEXT_LENGTH),
+    url: `/${product.id}`,
+  })),
+  ...docs.flatMap(docSections),
+  ...posts.map((post): SearchDocument => ({
+    id: `post:${post.slug}`,
+    type: 'post',
+    title: post.title,
+    text: `${post.summary} ${toPlainText(post.html)}`.slice(0, TEXT_LENGTH),
+    url: `/blog/${post.slug}`,
+  })),
+  ...images.map((image): SearchDocument => ({
+    id: `image:${image.name}:${image.tag}`,
+    type: 'image',
+    title: `${image.name}:${image.tag}`,
+    context: `${imageOsLabels[image.os]} ${image.version}`,
+    text: [image.description, image.osName, ...image.tags, getPullCommand(image)].join(' '),
+    url: `/images?q=${encodeURIComponent(image.name)}`,
+  })),
+];
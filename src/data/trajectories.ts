@@ -0,0 +1,22 @@
+export interface ExampleTrajectory {
+  id: string;
+  title: string;
+  description: string;
+  // JSON or JSONL log; screenshot paths in it are relative to this file
+  src: string;
+}
+
+// Runs bundled with the site; `id` is the ?example= permalink value
+const exampleTrajectories: ExampleTrajectory[] = [
+  {
+    id: 'notes-todo',
+    title: 'Notes to-do list',
+    description: 'Writes a to-do list in Notes, then runs whoami in Terminal. Six steps on a macOS sandbox.',
+    src: '/trajectories/notes-todo.json',
+  },
+];
+
+export const getExampleTrajectory = (id: string | null): ExampleTrajectory | undefined =>
+  exampleTrajectories.find((example) => example.id === id);
+
+export default exampleTrajectories;
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { Consent, getConsent, isAnalyticsEnabled, isDoNotTrack, setConsent, subscribeToConsent } from '../services/analytics';
+
+interface AnalyticsConsentState {
+  consent: Consent | null;
+  // Whether to ask at all: false until mounted, without a transport, or under Do Not Track
+  canAsk: boolean;
+  setConsent: (consent: Consent | null) => void;
+}
+
+const useAnalyticsConsent = (): AnalyticsConsentState => {
+  const [consent, setConsentState] = useState<Consent | null>(null);
+  const [canAsk, setCanAsk] = useState(false);
+
+  // Read after mount so prerendered markup never includes the banner
+  useEffect(() => {
+    setConsentState(getConsent());
+    setCanAsk(isAnalyticsEnabled() && !isDoNotTrack());
+    return subscribeToConsent(setConsentState);
+  }, []);
+
+  return { consent, canAsk, setConsent };
+};
+
+export default useAnalyticsConsent;
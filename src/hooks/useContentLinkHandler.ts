@@ -0,0 +1,26 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useI18n } from '../components/I18nProvider';
+
+// Links inside compiled markdown HTML are plain anchors; this routes internal
+// ones through the router (in the current locale) instead of reloading the page
+const useContentLinkHandler = () => {
+  const navigate = useNavigate();
+  const { localizePath } = useI18n();
+
+  return (event: React.MouseEvent<HTMLElement>) => {
+    const anchor = (event.target as HTMLElement).closest('a');
+    const href = anchor?.getAttribute('href');
+    if (!href || !href.startsWith('/') || anchor?.target || event.metaKey || event.ctrlKey || event.shiftKey) {
+      return;
+    }
+    // Feeds and other static files are not routes
+    if (/\.\w+$/.test(href.split(/[?#]/)[0])) {
+      return;
+    }
+    event.preventDefault();
+    navigate(localizePath(href));
+  };
+};
+
+export default useContentLinkHandler;
@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { getPageMeta } from '../data/pageMeta';
+
+const setMetaContent = (selector: string, content: string) => {
+  document.querySelector(selector)?.setAttribute('content', content);
+};
+
+// Keeps the title and share tags in sync with client-side navigation
+const usePageMeta = (pathname: string) => {
+  useEffect(() => {
+    const meta = getPageMeta(pathname);
+    document.title = meta.title;
+    setMetaContent('meta[name="description"]', meta.description);
+    setMetaContent('meta[property="og:title"]', meta.title);
+    setMetaContent('meta[property="og:description"]', meta.description);
+  }, [pathname]);
+};
+
+export default usePageMeta;
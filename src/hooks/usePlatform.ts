@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { PlatformInfo, detectPlatform } from '../services/platform';
+
+// null until detection finishes, which only happens in the browser
+const usePlatform = (): PlatformInfo | null => {
+  const [platform, setPlatform] = useState<PlatformInfo | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    detectPlatform().then((info) => {
+      if (!isCancelled) {
+        setPlatform(info);
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  return platform;
+};
+
+export default usePlatform;
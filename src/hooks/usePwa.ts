@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { PwaState, getPwaState, subscribeToPwa } from '../services/pwa';
+
+const usePwa = (): PwaState => {
+  // Nothing is pending during prerendering or the first client render
+  const [state, setState] = useState<PwaState>({ isUpdateReady: false, canInstall: false });
+
+  useEffect(() => {
+    setState(getPwaState());
+    return subscribeToPwa(setState);
+  }, []);
+
+  return state;
+};
+
+export default usePwa;
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { RepoStats, getRepoStats, getSnapshotStats, peekRepoStats } from '../services/githubStats';
+
+// Starts from the build-time snapshot so prerendered markup hydrates cleanly,
+// then swaps in cached stats and refreshes them in the background
+const useRepoStats = (repo: string | undefined): RepoStats | null => {
+  const [stats, setStats] = useState<RepoStats | null>(() => (repo ? getSnapshotStats(repo) : null));
+
+  useEffect(() => {
+    if (!repo) return;
+    let isCancelled = false;
+    setStats(peekRepoStats(repo));
+    getRepoStats(repo).then((result) => {
+      if (!isCancelled && result) {
+        setStats(result);
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [repo]);
+
+  return stats;
+};
+
+export default useRepoStats;
@@ -0,0 +1,26 @@
+import en from '../en.json';
+import es from '../es.json';
+import ja from '../ja.json';
+import zh from '../zh.json';
+
+const { checkCatalog } = require('../../../scripts/check-translations');
+
+describe('locale catalogs', () => {
+  it.each([
+    ['zh', zh],
+    ['ja', ja],
+    ['es', es],
+  ])('%s has the same keys and placeholders as en', (locale, catalog) => {
+    expect(Object.keys(catalog).sort()).toEqual(Object.keys(en).sort());
+    expect(checkCatalog(locale, en, catalog)).toEqual([]);
+  });
+
+  it('reports missing, unknown and mismatched keys', () => {
+    const source = { 'a.title': 'Title', 'a.count': '{count} items' };
+    expect(checkCatalog('xx', source, { 'a.count': '{total} items', 'a.extra': 'Extra' })).toEqual([
+      'xx: missing "a.title"',
+      'xx: "a.count" has placeholders {total}, expected {count}',
+      'xx: unknown key "a.extra"',
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import en from './en.json';
+import es from './es.json';
+import ja from './ja.json';
+import zh from './zh.json';
+
+export type MessageKey = keyof typeof en;
+export type Messages = Partial<Record<MessageKey, string>>;
+
+export const LOCALES = ['en', 'zh', 'ja', 'es'] as const;
+export type Locale = typeof LOCALES[number];
+
+// English is served without a prefix; every other locale lives under /<locale>/
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const localeLabels: Record<Locale, string> = {
+  en: 'English',
+  zh: '中文',
+  ja: '日本語',
+  es: 'Español',
+};
+
+// Catalogs may lag behind English; missing keys fall back to it
+const catalogs: Record<Locale, Messages> = { en, zh, ja, es };
+
+export const isLocale = (value: string | undefined): value is Locale =>
+  LOCALES.includes(value as Locale);
+
+/** Resolves a BCP 47 tag like "zh-CN" or "es-419" to a supported locale. */
+export const matchLocale = (tag: string | null | undefined): Locale | null => {
+  const base = tag?.toLowerCase().split('-')[0];
+  return isLocale(base) ? base : null;
+};
+
+export const getPathLocale = (pathname: string): Locale => {
+  const segment = pathname.split('/')[1];
+  return isLocale(segment) ? segment : DEFAULT_LOCALE;
+};
+
+/** "/zh/docs/faq" -> "/docs/faq" */
+export const stripLocale = (pathname: string): string => {
+  const segment = pathname.split('/')[1];
+  if (!isLocale(segment) || segment === DEFAULT_LOCALE) return pathname;
+  return pathname.slice(segment.length + 1) || '/';
+};
+
+/** "/docs/faq" -> "/zh/docs/faq" */
+export const localizePath = (path: string, locale: Locale): string => {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+};
+
+/** Whether English has a message for `key`, e.g. for copy that falls back to data files. */
+export const hasMessage = (key: string): key is MessageKey => key in en;
+
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string => {
+  const message = catalogs[locale][key] ?? catalogs[DEFAULT_LOCALE][key] ?? key;
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+/** "2025-03-10T00:00:00.000Z" -> "March 10, 2025", in UTC so prerendered and hydrated text match. */
+export const formatDate = (locale: Locale, isoDate: string): string =>
+  new Date(isoDate).toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
@@ -3,17 +3,26 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { trackWebVital } from './services/analytics';
+import { registerServiceWorker } from './services/pwa';
 
-const root = ReactDOM.createRoot(
-  document.getElementById('root') as HTMLElement
-);
-root.render(
+const container = document.getElementById('root') as HTMLElement;
+const app = (
   <React.StrictMode>
     <App />
   </React.StrictMode>
 );
 
-// If you want to start measuring performance in your app, pass a function
-// to log results (for example: reportWebVitals(console.log))
-// or send to an analytics endpoint. Learn more: https://bit.ly/CRA-vitals
-reportWebVitals();
+// Prerendered pages (scripts/prerender.js) already contain markup to hydrate
+if (container.hasChildNodes()) {
+  ReactDOM.hydrateRoot(container, app);
+} else {
+  ReactDOM.createRoot(container).render(app);
+}
+
+// Core Web Vitals go through the analytics pipeline, so they are only sent
+// with consent. Learn more: https://bit.ly/CRA-vitals
+reportWebVitals(trackWebVital);
+
+// Offline support and the update toast; see src/service-worker.ts
+registerServiceWorker();
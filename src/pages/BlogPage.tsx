@@ -0,0 +1,108 @@
+import React from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, Rss } from 'lucide-react';
+import { useI18n } from '../components/I18nProvider';
+import { Badge } from '../components/ui';
+import { getBlogTags, paginatePosts } from '../data/blog';
+import { formatDate } from '../i18n/locales';
+
+// Tag and page live in the query string, like the image filters
+const blogSearch = (tag: string | null, page: number) => {
+  const params = new URLSearchParams();
+  if (tag) params.set('tag', tag);
+  if (page > 1) params.set('page', String(page));
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+const pillClass = (isActive: boolean) => `px-3 py-1 rounded-full border text-sm transition-colors ${
+  isActive
+    ? 'bg-inverse text-inverse-fg border-transparent'
+    : 'border-line hover:border-line-strong text-link hover:text-link-hover'
+}`;
+
+const BlogPage = () => {
+  const { t, locale, localizePath } = useI18n();
+  const [searchParams] = useSearchParams();
+  const tag = searchParams.get('tag');
+  const { posts, page, pageCount } = paginatePosts(tag, Number(searchParams.get('page')) || 1);
+  const tags = getBlogTags();
+  const blogPath = localizePath('/blog');
+
+  return (
+    <main className="max-w-3xl mx-auto mt-20 md:mt-32 px-4 pb-40 md:pb-24">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <h1 className="text-4xl font-bold text-fg">{t('blog.title')}</h1>
+        <a href="/atom.xml" className="inline-flex items-center gap-1 mt-3 text-sm text-link hover:text-link-hover">
+          <Rss size={16} />
+          <span>{t('blog.feed')}</span>
+        </a>
+      </div>
+      <p className="mb-8 text-fg-muted">{t('blog.description')}</p>
+
+      {/* Tags */}
+      {tags.length > 0 && (
+        <nav className="flex flex-wrap gap-2 mb-10" aria-label={t('blog.tagFilter')}>
+          <Link to={blogPath} className={pillClass(!tag)}>{t('blog.allTags')}</Link>
+          {tags.map((entry) => (
+            <Link key={entry} to={`${blogPath}${blogSearch(entry, 1)}`} className={pillClass(entry === tag)}>
+              {entry}
+            </Link>
+          ))}
+        </nav>
+      )}
+
+      {/* Posts */}
+      {posts.length === 0 ? (
+        <p className="text-fg-muted">{t('blog.empty')}</p>
+      ) : (
+        <ul className="space-y-10">
+          {posts.map((post) => (
+            <li key={post.slug}>
+              <article>
+                <div className="text-sm text-fg-subtle">
+                  <time dateTime={post.date}>{formatDate(locale, post.date)}</time>
+                  <span> · {post.author}</span>
+                </div>
+                <h2 className="text-2xl font-bold mt-1 text-fg">
+                  <Link to={localizePath(`/blog/${post.slug}`)} className="hover:text-link-hover">{post.title}</Link>
+                </h2>
+                {post.summary && <p className="mt-2 text-fg-muted">{post.summary}</p>}
+                {post.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {post.tags.map((entry) => (
+                      <Badge key={entry} href={`/blog${blogSearch(entry, 1)}`}>
+                        {entry}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </article>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <nav className="flex items-center justify-between gap-4 mt-12 pt-6 border-t border-line text-sm" aria-label={t('blog.pageOf', { page, total: pageCount })}>
+          {page > 1 ? (
+            <Link to={`${blogPath}${blogSearch(tag, page - 1)}`} className="inline-flex items-center gap-1 text-link hover:text-link-hover">
+              <ChevronLeft size={16} />
+              <span>{t('blog.newer')}</span>
+            </Link>
+          ) : <span />}
+          <span className="text-fg-subtle">{t('blog.pageOf', { page, total: pageCount })}</span>
+          {page < pageCount ? (
+            <Link to={`${blogPath}${blogSearch(tag, page + 1)}`} className="inline-flex items-center gap-1 text-link hover:text-link-hover">
+              <span>{t('blog.older')}</span>
+              <ChevronRight size={16} />
+            </Link>
+          ) : <span />}
+        </nav>
+      )}
+    </main>
+  );
+};
+
+export default BlogPage;
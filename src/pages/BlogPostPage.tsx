@@ -0,0 +1,72 @@
+import React, { useEffect } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { ArrowLeft, ExternalLink } from 'lucide-react';
+import { useI18n } from '../components/I18nProvider';
+import { Badge } from '../components/ui';
+import { getPost } from '../data/blog';
+import useContentLinkHandler from '../hooks/useContentLinkHandler';
+import { formatDate } from '../i18n/locales';
+import NotFound from './NotFound';
+
+const BlogPostPage = () => {
+  const { t, locale, localizePath } = useI18n();
+  const { slug } = useParams();
+  const { hash } = useLocation();
+  const handleContentClick = useContentLinkHandler();
+  const post = getPost(slug);
+
+  // Scroll to the heading anchor once the post has rendered
+  useEffect(() => {
+    if (!hash) return;
+    document.getElementById(decodeURIComponent(hash.slice(1)))?.scrollIntoView();
+  }, [slug, hash]);
+
+  if (!post) {
+    return <NotFound />;
+  }
+
+  return (
+    <main className="max-w-3xl mx-auto mt-20 md:mt-32 px-4 pb-40 md:pb-24">
+      <Link to={localizePath('/blog')} className="inline-flex items-center gap-1 mb-8 text-sm text-link hover:text-link-hover">
+        <ArrowLeft size={16} />
+        <span>{t('blog.back')}</span>
+      </Link>
+
+      <article>
+        <header className="mb-8">
+          <h1 className="text-4xl font-bold mb-3 text-fg">{post.title}</h1>
+          <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-fg-subtle">
+            <time dateTime={post.date}>{formatDate(locale, post.date)}</time>
+            <span>·</span>
+            <span>{t('blog.byline', { author: post.author })}</span>
+            {post.tags.map((tag) => (
+              <Badge key={tag} href={`/blog?tag=${encodeURIComponent(tag)}`}>
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        </header>
+
+        <div
+          className="docs-content"
+          onClick={handleContentClick}
+          dangerouslySetInnerHTML={{ __html: post.html }}
+        />
+
+        {post.url && (
+          <a
+            href={post.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 mt-8 text-sm text-link hover:text-link-hover"
+          >
+            <span>{t('blog.viewRelease')}</span>
+            <ExternalLink size={14} />
+          </a>
+        )}
+      </article>
+    </main>
+  );
+};
+
+export default BlogPostPage;
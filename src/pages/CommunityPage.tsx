@@ -0,0 +1,165 @@
+import React from 'react';
+import { ExternalLink, Github, MessageCircle, PlayCircle, Plus } from 'lucide-react';
+import { useI18n } from '../components/I18nProvider';
+import { Badge, Card, PillLink } from '../components/ui';
+import {
+  CommunityEntry,
+  communityProjects,
+  communityWorkflows,
+  contributorsUpdatedAt,
+  getContributors,
+} from '../data/community';
+import { formatDate } from '../i18n/locales';
+
+const DISCORD_URL = 'https://discord.com/invite/mVnXXpdE85';
+const CURATED_FILE_URL = 'https://github.com/trycua/trycua.github.io/blob/main/community.yaml';
+const AVATAR_SIZE = 64;
+
+const EntryCard = ({ entry }: { entry: CommunityEntry }) => {
+  const { t } = useI18n();
+  return (
+    <Card as="li" className="flex flex-col">
+      <h3 className="text-lg font-semibold mb-1 text-fg">{entry.title}</h3>
+      <p className="text-sm text-fg-subtle mb-3">
+        {t('community.by')}{' '}
+        <a href={`https://github.com/${entry.author}`} className="text-link hover:text-link-hover">
+          @{entry.author}
+        </a>
+      </p>
+      <p className="mb-4 text-fg-muted flex-1">{entry.description}</p>
+      <div className="flex flex-wrap items-center gap-2">
+        {entry.tags.map((tag) => (
+          <Badge key={tag}>{tag}</Badge>
+        ))}
+        <span className="flex-1" />
+        {entry.trajectory && (
+          <PillLink href={`/trajectories?example=${encodeURIComponent(entry.trajectory)}`} size="sm">
+            {t('community.viewRun')} <PlayCircle size={14} />
+          </PillLink>
+        )}
+        {entry.url && (
+          <PillLink href={entry.url} target="_blank" rel="noopener noreferrer" size="sm">
+            {t(entry.trajectory ? 'community.source' : 'community.open')} <ExternalLink size={14} />
+          </PillLink>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+// Curated entries, or a pointer to community.yaml while a section has none
+const EntryList = ({ entries }: { entries: CommunityEntry[] }) => {
+  const { t } = useI18n();
+  if (entries.length === 0) {
+    return (
+      <p className="text-fg-muted">
+        {t('community.empty')}{' '}
+        <a href={CURATED_FILE_URL} target="_blank" rel="noopener noreferrer" className="text-link hover:text-link-hover">
+          {t('community.add')}
+        </a>
+      </p>
+    );
+  }
+  return (
+    <ul className="grid md:grid-cols-2 gap-4">
+      {entries.map((entry) => (
+        <EntryCard key={entry.title} entry={entry} />
+      ))}
+    </ul>
+  );
+};
+
+const CommunityPage = () => {
+  const { t, locale } = useI18n();
+  const contributors = getContributors();
+
+  return (
+    <main className="max-w-5xl mx-auto mt-20 md:mt-32 px-4 pb-40 md:pb-24">
+      <h1 className="text-4xl font-bold mb-4 text-fg">{t('community.title')}</h1>
+      <p className="mb-6 text-fg-muted max-w-3xl">{t('community.description')}</p>
+      <div className="flex flex-wrap gap-3 mb-16">
+        <PillLink href={DISCORD_URL} target="_blank" rel="noopener noreferrer" variant="primary">
+          <MessageCircle size={18} /> {t('community.discord')}
+        </PillLink>
+        <PillLink href="https://github.com/trycua" target="_blank" rel="noopener noreferrer">
+          <Github size={18} /> {t('community.github')}
+        </PillLink>
+      </div>
+
+      {/* Contributors */}
+      <section aria-labelledby="contributors-title" className="mb-16">
+        <div className="flex flex-wrap items-baseline justify-between gap-2 mb-6">
+          <h2 id="contributors-title" className="text-2xl font-semibold text-fg">
+            {t('community.contributors')} {contributors.length > 0 && <span className="text-fg-subtle">({contributors.length})</span>}
+          </h2>
+          {contributorsUpdatedAt && (
+            <p className="text-sm text-fg-subtle">
+              <time dateTime={contributorsUpdatedAt}>
+                {t('community.asOf', { date: formatDate(locale, contributorsUpdatedAt) })}
+              </time>
+            </p>
+          )}
+        </div>
+        {contributors.length > 0 ? (
+          <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
+            {contributors.map((contributor) => (
+              <li key={contributor.login}>
+                <a
+                  href={contributor.profileUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={contributor.repos.join(', ')}
+                  className="flex items-center gap-3 p-3 rounded-xl border border-line hover:border-line-strong transition-colors"
+                >
+                  <img
+                    src={`${contributor.avatarUrl}${contributor.avatarUrl.includes('?') ? '&' : '?'}s=${AVATAR_SIZE}`}
+                    alt=""
+                    width={AVATAR_SIZE / 2}
+                    height={AVATAR_SIZE / 2}
+                    loading="lazy"
+                    className="w-8 h-8 rounded-full bg-surface-muted flex-shrink-0"
+                  />
+                  <span className="min-w-0">
+                    <span className="block truncate text-sm font-medium text-fg">{contributor.login}</span>
+                    <span className="block text-xs text-fg-subtle">
+                      {t(contributor.contributions === 1 ? 'community.commits.one' : 'community.commits.other', {
+                        count: contributor.contributions,
+                      })}
+                    </span>
+                  </span>
+                </a>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-fg-muted">
+            {t('community.noContributors')}{' '}
+            <a href="https://github.com/trycua" className="text-link hover:text-link-hover">
+              {t('community.reposLink')}
+            </a>
+          </p>
+        )}
+      </section>
+
+      {/* Curated showcase */}
+      <section aria-labelledby="projects-title" className="mb-16">
+        <h2 id="projects-title" className="text-2xl font-semibold mb-6 text-fg">{t('community.projects')}</h2>
+        <EntryList entries={communityProjects} />
+      </section>
+
+      <section aria-labelledby="workflows-title" className="mb-12">
+        <h2 id="workflows-title" className="text-2xl font-semibold mb-6 text-fg">{t('community.workflows')}</h2>
+        <EntryList entries={communityWorkflows} />
+      </section>
+
+      <Card className="flex flex-col md:flex-row md:items-center gap-4">
+        <p className="flex-1 text-fg-muted">{t('community.addDescription')}</p>
+        <PillLink href={CURATED_FILE_URL} target="_blank" rel="noopener noreferrer" size="sm">
+          <Plus size={14} /> {t('community.add')}
+        </PillLink>
+      </Card>
+    </main>
+  );
+};
+
+export default CommunityPage;
@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ChevronRight, ExternalLink } from 'lucide-react';
+import { Badge, Button, ButtonSize, ButtonVariant, Card, Modal, NavLink, PillLink } from '../components/ui';
+
+const BUTTON_VARIANTS: ButtonVariant[] = ['primary', 'secondary'];
+const BUTTON_SIZES: ButtonSize[] = ['md', 'sm'];
+const THEMES = ['light', 'dark'] as const;
+
+type Theme = typeof THEMES[number];
+
+interface ThemeFrameProps {
+  theme: Theme;
+  title: string;
+  // Fixed height, for previews with overlays; otherwise the frame fits its content
+  className?: string;
+  children: React.ReactNode;
+}
+
+const FRAME_DOCUMENT = '<!DOCTYPE html><html><head></head><body></body></html>';
+
+/**
+ * Renders children into an iframe whose <html> has only the given theme class.
+ * Tailwind's dark: variants match a .dark on any ancestor, so a preview nested in
+ * the page would follow the page theme; the frame is a separate document with the
+ * app's styles copied in. A portal keeps the app's router and i18n context.
+ */
+const ThemeFrame = ({ theme, title, className = '', children }: ThemeFrameProps) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [body, setBody] = useState<HTMLElement | null>(null);
+
+  const setUpFrame = () => {
+    const frameDocument = frameRef.current?.contentDocument;
+    if (!frameDocument) return;
+    document.querySelectorAll('style, link[rel="stylesheet"]').forEach((node) => {
+      frameDocument.head.appendChild(node.cloneNode(true));
+    });
+    frameDocument.documentElement.className = theme;
+    frameDocument.body.className = 'bg-surface text-fg p-6';
+    setBody(frameDocument.body);
+  };
+
+  useEffect(() => {
+    if (!body || className) return;
+    const observer = new ResizeObserver(() => {
+      if (frameRef.current) {
+        frameRef.current.style.height = `${body.scrollHeight}px`;
+      }
+    });
+    observer.observe(body);
+    return () => observer.disconnect();
+  }, [body, className]);
+
+  return (
+    <iframe
+      ref={frameRef}
+      title={title}
+      srcDoc={FRAME_DOCUMENT}
+      onLoad={setUpFrame}
+      className={`w-full rounded-xl border border-line ${className}`}
+    >
+      {body && createPortal(children, body)}
+    </iframe>
+  );
+};
+
+interface SectionProps {
+  title: string;
+  frameClassName?: string;
+  children: React.ReactNode;
+}
+
+// Renders the same preview once per theme, side by side
+const Section = ({ title, frameClassName, children }: SectionProps) => (
+  <section className="mb-12">
+    <h2 className="text-xl font-semibold mb-4 text-fg">{title}</h2>
+    <div className="grid md:grid-cols-2 gap-4">
+      {THEMES.map((theme) => (
+        <div key={theme}>
+          <p className="text-xs uppercase tracking-wide text-fg-subtle mb-2">{theme}</p>
+          <ThemeFrame theme={theme} title={`${title}, ${theme} theme`} className={frameClassName}>
+            <div className="flex flex-wrap items-center gap-4">{children}</div>
+          </ThemeFrame>
+        </div>
+      ))}
+    </div>
+  </section>
+);
+
+// Each frame gets its own instance, so opening one doesn't open the other
+const ModalDemo = () => {
+  const [isOpen, setOpen] = useState(false);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  return (
+    <>
+      <Button onClick={() => setOpen(true)}>Open modal</Button>
+      {isOpen && (
+        <Modal
+          onClose={() => setOpen(false)}
+          labelledBy="explorer-modal-title"
+          initialFocusRef={closeButtonRef}
+          className="max-w-md"
+        >
+          <Card className="bg-surface">
+            <h2 id="explorer-modal-title" className="text-lg font-semibold mb-2 text-fg">
+              Modal
+            </h2>
+            <p className="mb-6 text-fg-muted">Escape or a click outside closes it; Tab stays inside.</p>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button ref={closeButtonRef} size="sm" variant="primary" onClick={() => setOpen(false)}>
+                Close
+              </Button>
+            </div>
+          </Card>
+        </Modal>
+      )}
+    </>
+  );
+};
+
+/** Development-only gallery of the shared UI components (served at /components by `yarn start`). */
+const ComponentExplorerPage = () => {
+  return (
+    <main className="max-w-6xl mx-auto px-4 pt-12 pb-40 md:pb-16">
+      <h1 className="text-4xl font-bold mb-2 text-fg">Components</h1>
+      <p className="mb-12 text-fg-muted">
+        Every variant of the shared UI components in src/components/ui, in both themes.
+      </p>
+
+      <Section title="Button">
+        {BUTTON_VARIANTS.map((variant) =>
+          BUTTON_SIZES.map((size) => (
+            <Button key={`${variant}-${size}`} variant={variant} size={size}>
+              {variant} {size}
+            </Button>
+          ))
+        )}
+        <Button disabled>disabled</Button>
+      </Section>
+
+      <Section title="PillLink">
+        <PillLink href="/waitlist" variant="primary">
+          Site link
+        </PillLink>
+        <PillLink href="/docs" size="sm">
+          Small <ChevronRight size={14} />
+        </PillLink>
+        <PillLink href="https://github.com/trycua/cua" target="_blank" rel="noopener noreferrer" size="sm">
+          External <ExternalLink size={14} />
+        </PillLink>
+      </Section>
+
+      <Section title="NavLink">
+        <NavLink href="/components">Header (current page)</NavLink>
+        <NavLink href="/docs">Header</NavLink>
+        <NavLink href="/blog" variant="footer">
+          Footer
+        </NavLink>
+      </Section>
+
+      <Section title="Card">
+        <Card className="w-56">Outline</Card>
+        <Card variant="interactive" className="w-56">
+          Interactive
+        </Card>
+        <Card variant="raised" className="w-56">
+          Raised
+        </Card>
+      </Section>
+
+      <Section title="Badge">
+        <Badge>neutral</Badge>
+        <Badge variant="inverse">inverse</Badge>
+        <Badge variant="outline">outline</Badge>
+        <Badge href="/blog">link</Badge>
+      </Section>
+
+      <Section title="Modal" frameClassName="h-80">
+        <ModalDemo />
+      </Section>
+    </main>
+  );
+};
+
+export default ComponentExplorerPage;
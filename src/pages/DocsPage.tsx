@@ -0,0 +1,119 @@
+import React, { useEffect } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { useI18n } from '../components/I18nProvider';
+import docs, { getDoc } from '../data/docs';
+import useContentLinkHandler from '../hooks/useContentLinkHandler';
+import NotFound from './NotFound';
+
+const DocsPage = () => {
+  const { t, localizePath } = useI18n();
+  const { slug } = useParams();
+  const { hash } = useLocation();
+  const handleContentClick = useContentLinkHandler();
+  const doc = getDoc(slug);
+
+  // Scroll to the heading anchor once the document has rendered
+  useEffect(() => {
+    if (!hash) return;
+    document.getElementById(decodeURIComponent(hash.slice(1)))?.scrollIntoView();
+  }, [slug, hash]);
+
+  // /docs lists every page, so the index can be prerendered and crawled
+  if (!slug) {
+    return (
+      <main className="max-w-3xl mx-auto mt-20 md:mt-32 px-4 pb-40 md:pb-24">
+        <h1 className="text-4xl font-bold mb-4 text-fg">{t('docs.title')}</h1>
+        <p className="mb-10 text-fg-muted">{t('docs.description')}</p>
+        <ul className="space-y-8">
+          {docs.map((entry) => (
+            <li key={entry.slug}>
+              <h2 className="text-2xl font-bold text-fg">
+                <Link to={localizePath(`/docs/${entry.slug}`)} className="hover:text-link-hover">{entry.title}</Link>
+              </h2>
+              {entry.description && <p className="mt-2 text-fg-muted">{entry.description}</p>}
+            </li>
+          ))}
+        </ul>
+      </main>
+    );
+  }
+  if (!doc) {
+    return <NotFound />;
+  }
+
+  const index = docs.indexOf(doc);
+  const previous = docs[index - 1];
+  const next = docs[index + 1];
+
+  const sidebarLinkClass = (isActive: boolean) => isActive
+    ? 'text-fg font-medium'
+    : 'text-fg-muted hover:text-link-hover';
+
+  return (
+    <div className="max-w-6xl mx-auto mt-20 md:mt-32 px-4 pb-40 md:pb-24 flex flex-col md:flex-row gap-8 md:gap-12">
+      {/* Sidebar */}
+      <aside className="md:w-56 flex-shrink-0">
+        <nav className="md:sticky md:top-24 text-sm" aria-label={t('docs.nav')}>
+          <ul className="space-y-3">
+            {docs.map((entry) => (
+              <li key={entry.slug}>
+                <Link to={localizePath(`/docs/${entry.slug}`)} className={sidebarLinkClass(entry === doc)}>
+                  {entry.title}
+                </Link>
+                {entry === doc && entry.headings.length > 0 && (
+                  <ul className="mt-2 space-y-2 border-l pl-3 border-line">
+                    {entry.headings.map((heading) => (
+                      <li key={heading.id} className={heading.level === 3 ? 'pl-3' : ''}>
+                        <Link to={localizePath(`/docs/${entry.slug}#${heading.id}`)} className={sidebarLinkClass(false)}>
+                          {heading.text}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </nav>
+      </aside>
+
+      {/* Content */}
+      <main className="flex-1 min-w-0">
+        <h1 className="text-4xl font-bold mb-4 text-fg">{doc.title}</h1>
+        {doc.description && (
+          <p className="mb-8 text-fg-muted">{doc.description}</p>
+        )}
+        <div
+          className="docs-content"
+          onClick={handleContentClick}
+          dangerouslySetInnerHTML={{ __html: doc.html }}
+        />
+
+        {/* Previous / next */}
+        <div className="flex justify-between gap-4 mt-12 pt-6 border-t border-line">
+          {previous ? (
+            <Link
+              to={localizePath(`/docs/${previous.slug}`)}
+              aria-label={t('docs.previous', { title: previous.title })}
+              className={`inline-flex items-center gap-1 ${sidebarLinkClass(false)}`}>
+              <ChevronLeft size={16} />
+              <span>{previous.title}</span>
+            </Link>
+          ) : <span />}
+          {next && (
+            <Link
+              to={localizePath(`/docs/${next.slug}`)}
+              aria-label={t('docs.next', { title: next.title })}
+              className={`inline-flex items-center gap-1 ${sidebarLinkClass(false)}`}>
+              <span>{next.title}</span>
+              <ChevronRight size={16} />
+            </Link>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default DocsPage;
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ClipboardList, Play } from 'lucide-react';
+import { useI18n } from '../components/I18nProvider';
+import { track } from '../services/analytics';
+import InstallWizard from '../components/InstallWizard';
+import MediaModal from '../components/MediaModal';
+import PlatformNotice from '../components/PlatformNotice';
+import ProductCard from '../components/ProductCard';
+import WhatsNewBanner from '../components/WhatsNewBanner';
+import { Button, PillLink } from '../components/ui';
+import demos from '../data/demos';
+import products from '../data/products';
+
+// Debounce helper outside component to prevent recreation
+const debounce = (fn: Function, ms = 100) => {
+  let timeoutId: ReturnType<typeof setTimeout>;
+  return function (this: any, ...args: any[]) {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => fn.apply(this, args), ms);
+  };
+};
+
+const Home = () => {
+  const [isScrolled, setIsScrolled] = useState(false);
+  const [isInitialized, setIsInitialized] = useState(false);
+  const { t } = useI18n();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The open demo lives in the URL (?demo=gradio&t=30) so it can be deep-linked
+  const demoIndex = demos.findIndex((demo) => demo.id === searchParams.get('demo'));
+  const openDemo = (id: string) => setSearchParams({ demo: id }, { replace: true });
+  const closeDemo = () => setSearchParams({}, { replace: true });
+
+  // Add scroll detection
+  useEffect(() => {
+    const checkScroll = () => {
+      const { scrollTop, scrollHeight, clientHeight } = document.documentElement;
+      const hasScrollableContent = scrollHeight > clientHeight + 10; // Reduced from 20 to 10
+      const hasScrolled = scrollTop > 5; // Reduced from 20 to 5
+      
+      setIsScrolled(hasScrollableContent && hasScrolled);
+    };
+
+    // Add a small delay before initializing to prevent initial flicker
+    const initTimeout = setTimeout(() => {
+      setIsInitialized(true);
+      checkScroll();
+    }, 100);
+
+    const debouncedScroll = debounce(checkScroll, 50);
+    const debouncedResize = debounce(checkScroll, 100);
+
+    window.addEventListener('scroll', debouncedScroll);
+    window.addEventListener('resize', debouncedResize);
+
+    return () => {
+      clearTimeout(initTimeout);
+      window.removeEventListener('scroll', debouncedScroll);
+      window.removeEventListener('resize', debouncedResize);
+    };
+  }, []);
+
+  return (
+    <>
+      {/* Main Content */}
+      <div className="overflow-auto">
+        <main className="max-w-4xl mx-auto mt-20 md:mt-32 text-center px-4 pb-40 md:pb-16">
+          <WhatsNewBanner />
+          <div className="flex justify-center mb-4 md:mb-8">
+            <img src="/logo-black.svg" alt="TryCua Logo" className="w-24 h-24 dark:hidden" />
+            <img src="/logo-white.svg" alt="TryCua Logo" className="w-24 h-24 hidden dark:block" />
+          </div>
+          <h1 className="text-4xl font-bold mb-4 md:mb-8 text-fg">
+            {t('home.title')}
+          </h1>
+          <p className="mb-6 md:mb-12 text-fg-muted">
+            {t('home.subtitle')}
+          </p>
+          
+          {/* Product List */}
+          <div className="flex flex-col md:grid md:grid-cols-3 md:gap-8 mb-20 md:mb-8 mt-6 md:mt-8">
+            <div className="bg-surface-raised rounded-2xl overflow-hidden shadow-[0_0_0_1px_rgba(0,0,0,0.05)] dark:shadow-none md:contents">
+              {products.map((product, index) => (
+                <ProductCard
+                  key={product.id}
+                  product={product}
+                  showDivider={index > 0}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="h-0 md:h-[72px] md:h-auto">
+            <div className={`fixed md:static bottom-24 left-0 right-0 py-6 px-4 md:p-0 ${
+              isScrolled && isInitialized ? 'translate-y-0 opacity-100' : 'translate-y-4 opacity-0'
+            } transform-gpu transition-all duration-300 ease-out md:transform-none md:opacity-100 pointer-events-auto text-center flex flex-col items-center gap-3`}>
+              <PlatformNotice className="md:hidden" />
+              <div className="flex items-center gap-4">
+                <PillLink
+                  href="/waitlist"
+                  variant="primary"
+                  className="pointer-events-auto"
+                  onClick={() => track('cta-click', { cta: 'waitlist' })}
+                >
+                  <span>{t('home.waitlist')}</span>
+                  <ClipboardList size={20} />
+                </PillLink>
+                <Button
+                  className="pointer-events-auto"
+                  onClick={() => {
+                    track('cta-click', { cta: 'watch-demo' });
+                    openDemo(demos[0].id);
+                  }}
+                >
+                  <span>{t('home.watchDemo')}</span>
+                  <Play size={20} />
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-6 mb-24 hidden md:flex justify-center -mt-1 md:mb-4">
+            <PlatformNotice />
+          </div>
+
+          <InstallWizard />
+        </main>
+      </div>
+
+      {/* Video Modal */}
+      {demoIndex !== -1 && (
+        <MediaModal
+          items={demos}
+          index={demoIndex}
+          startTime={Number(searchParams.get('t')) || 0}
+          onIndexChange={(index) => openDemo(demos[index].id)}
+          onClose={closeDemo}
+        />
+      )}
+    </>
+  );
+};
+
+export default Home;
@@ -0,0 +1,159 @@
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ExternalLink, HardDrive, Search } from 'lucide-react';
+import CodeSnippet from '../components/CodeSnippet';
+import { useI18n } from '../components/I18nProvider';
+import { Card, badgeClassName } from '../components/ui';
+import {
+  ImageFilters,
+  ImageOs,
+  ImageSort,
+  filterImages,
+  getImageVersions,
+  getPackageUrl,
+  getPullCommand,
+  imageOsLabels,
+} from '../data/images';
+
+const OS_OPTIONS: (ImageOs | 'all')[] = ['all', 'macos', 'linux'];
+
+const SORT_OPTIONS: ImageSort[] = ['name', 'updated', 'version', 'size'];
+
+// Query params are user input; anything outside the options falls back to the default
+const pickOption = <T extends string>(options: T[], value: string | null, fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+const selectClass = 'px-3 py-2 rounded-xl border bg-surface text-fg border-line focus:border-fg focus:outline-none transition-colors';
+
+const ImagesPage = () => {
+  const { t } = useI18n();
+  // Filters live in the query string so a filtered view can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters: ImageFilters = {
+    query: searchParams.get('q') ?? '',
+    os: pickOption(OS_OPTIONS, searchParams.get('os'), 'all'),
+    version: searchParams.get('version') ?? 'all',
+    sort: pickOption(SORT_OPTIONS, searchParams.get('sort'), 'name'),
+  };
+  const versions = getImageVersions(filters.os);
+  const results = filterImages(filters);
+
+  const updateFilter = (key: 'q' | 'os' | 'version' | 'sort', value: string, defaultValue: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value === defaultValue) {
+      next.delete(key);
+    } else {
+      next.set(key, value);
+    }
+    // A version from the previous OS may not exist for the new one
+    if (key === 'os') {
+      next.delete('version');
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  return (
+    <main className="max-w-4xl mx-auto mt-20 md:mt-32 px-4 pb-40 md:pb-24">
+      <h1 className="text-4xl font-bold mb-4 text-fg">{t('images.title')}</h1>
+      <p className="mb-8 text-fg-muted">
+        {t('images.description')}
+      </p>
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row gap-3 mb-8">
+        <label className="relative flex-1">
+          <span className="sr-only">{t('images.search')}</span>
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-fg-subtle" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => updateFilter('q', e.target.value, '')}
+            placeholder={t('images.searchPlaceholder')}
+            className={`${selectClass} w-full pl-9`}
+          />
+        </label>
+        <div role="group" aria-label={t('images.os')} className="flex rounded-xl border border-line overflow-hidden">
+          {OS_OPTIONS.map((os) => (
+            <button
+              key={os}
+              onClick={() => updateFilter('os', os, 'all')}
+              aria-pressed={filters.os === os}
+              className={`px-4 py-2 text-sm transition-colors ${
+                filters.os === os ? 'bg-inverse text-inverse-fg' : 'text-link hover:text-link-hover'
+              }`}
+            >
+              {os === 'all' ? t('images.allOs') : imageOsLabels[os]}
+            </button>
+          ))}
+        </div>
+        <select
+          aria-label={t('images.version')}
+          value={filters.version}
+          onChange={(e) => updateFilter('version', e.target.value, 'all')}
+          className={selectClass}
+        >
+          <option value="all">{t('images.allVersions')}</option>
+          {versions.map((version) => (
+            <option key={version} value={version}>{version}</option>
+          ))}
+        </select>
+        <select
+          aria-label={t('images.sort')}
+          value={filters.sort}
+          onChange={(e) => updateFilter('sort', e.target.value, 'name')}
+          className={selectClass}
+        >
+          {SORT_OPTIONS.map((sort) => (
+            <option key={sort} value={sort}>{t(`images.sort.${sort}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Results */}
+      <p className="text-sm mb-4 text-fg-subtle" aria-live="polite">
+        {t(results.length === 1 ? 'images.count.one' : 'images.count.other', { count: results.length })}
+      </p>
+      <div className="flex flex-col gap-4">
+        {results.map((image) => (
+          <Card as="article" key={`${image.name}:${image.tag}`}>
+            <div className="flex flex-wrap items-start justify-between gap-2 mb-2">
+              <h2 className="font-bold text-xl text-fg">
+                {image.name}<span className="font-normal text-fg-subtle">:{image.tag}</span>
+              </h2>
+              <a
+                href={getPackageUrl(image)}
+                className="inline-flex items-center gap-1 text-sm text-fg-subtle hover:text-link-hover"
+              >
+                <span>GHCR</span>
+                <ExternalLink size={14} />
+              </a>
+            </div>
+            <p className="text-sm leading-relaxed mb-3 text-fg-muted">{image.description}</p>
+            <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+              <span className="px-2 py-1 rounded-md bg-surface-muted text-fg-subtle">{image.osName} {image.version}</span>
+              <span className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-surface-muted text-fg-subtle">
+                <HardDrive size={12} />
+                ~{image.sizeGb} GB
+              </span>
+              {image.tags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => updateFilter('q', tag, '')}
+                  className={badgeClassName('outline', 'hover:text-link-hover hover:border-line-strong')}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+            <CodeSnippet tabs={[{ label: t('images.pull'), code: getPullCommand(image) }]} />
+          </Card>
+        ))}
+        {results.length === 0 && (
+          <p className="py-12 text-center text-fg-muted">{t('images.empty')}</p>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default ImagesPage;
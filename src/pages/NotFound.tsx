@@ -0,0 +1,23 @@
+import React from 'react';
+import { useI18n } from '../components/I18nProvider';
+import { PillLink } from '../components/ui';
+
+const NotFound = () => {
+  const { t } = useI18n();
+
+  return (
+    <main className="max-w-4xl mx-auto mt-20 md:mt-32 text-center px-4 pb-40 md:pb-16">
+      <h1 className="text-4xl font-bold mb-4 md:mb-8 text-fg">
+        {t('notFound.title')}
+      </h1>
+      <p className="mb-6 md:mb-12 text-fg-muted">
+        {t('notFound.description')}
+      </p>
+      <PillLink href="/" variant="primary">
+        {t('notFound.back')}
+      </PillLink>
+    </main>
+  );
+};
+
+export default NotFound;
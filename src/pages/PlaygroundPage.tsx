@@ -0,0 +1,265 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Copy, Play, Repeat, RotateCcw, X } from 'lucide-react';
+import { useI18n } from '../components/I18nProvider';
+import { Button } from '../components/ui';
+import { track } from '../services/analytics';
+import { formatCall, parseScript } from '../services/computerScript';
+import {
+  DesktopState,
+  SCREEN_HEIGHT,
+  SCREEN_WIDTH,
+  SandboxRequest,
+  SandboxResponse,
+  createInitialState,
+  createMockSandbox,
+} from '../services/mockSandbox';
+import { captureDesktop, drawDesktop } from '../services/sandboxRenderer';
+
+interface LogEntry {
+  id: number;
+  request: SandboxRequest;
+  response: SandboxResponse;
+}
+
+// Dock icons are centred at y 598: Notes x 452, Terminal x 512, About x 572
+const EXAMPLE_SCRIPT = `# Open Notes from the dock and write a line
+await computer.interface.left_click(452, 598)
+await computer.interface.type_text("Hello from the Computer interface!\\n")
+await computer.interface.hotkey("command", "c")
+
+# Open Terminal and paste the note after echo
+await computer.interface.left_click(512, 598)
+await computer.interface.type_text("echo ")
+await computer.interface.hotkey("command", "v")
+
+await computer.interface.get_cursor_position()
+await computer.interface.screenshot()`;
+
+const REPLAY_DELAY_MS = 500;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isScreenshot = (result: unknown): result is { image: string } =>
+  typeof result === 'object' && result !== null && typeof (result as { image?: unknown }).image === 'string';
+
+const PlaygroundPage = () => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Created once per page visit; screenshots render through the same painter as the canvas
+  const [sandbox] = useState(() => createMockSandbox(captureDesktop));
+  const [desktop, setDesktop] = useState<DesktopState>(createInitialState);
+  const [script, setScript] = useState(EXAMPLE_SCRIPT);
+  const [scriptError, setScriptError] = useState<string | null>(null);
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  // Index into `log` of the call being replayed
+  const [replayStep, setReplayStep] = useState<number | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+  const nextId = useRef(0);
+  // Bumped to abandon a run or replay in progress (reset, unmount)
+  const runToken = useRef(0);
+
+  useEffect(() => {
+    const unsubscribe = sandbox.subscribe(setDesktop);
+    return () => {
+      unsubscribe();
+      runToken.current += 1;
+    };
+  }, [sandbox]);
+
+  // Repaint on every state change, at device resolution
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = SCREEN_WIDTH * ratio;
+    canvas.height = SCREEN_HEIGHT * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    drawDesktop(ctx, desktop);
+  }, [desktop]);
+
+  const runRequests = async (requests: SandboxRequest[]) => {
+    const token = runToken.current;
+    setIsBusy(true);
+    for (const request of requests) {
+      const response = await sandbox.send(request);
+      if (token !== runToken.current) return;
+      setLog((entries) => [...entries, { id: nextId.current++, request, response }]);
+    }
+    setIsBusy(false);
+  };
+
+  const runScript = () => {
+    try {
+      const requests = parseScript(script);
+      setScriptError(null);
+      track('playground-run', { calls: requests.length });
+      runRequests(requests);
+    } catch (error: unknown) {
+      setScriptError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleEditorKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      if (!isBusy) runScript();
+    }
+  };
+
+  // Clicking the desktop sends a left_click at the matching sandbox pixel
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (isBusy) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = Math.round(((event.clientX - rect.left) / rect.width) * SCREEN_WIDTH);
+    const y = Math.round(((event.clientY - rect.top) / rect.height) * SCREEN_HEIGHT);
+    runRequests([{ command: 'left_click', params: { x, y } }]);
+  };
+
+  // Starts from a fresh desktop and steps through the log again
+  const replay = async () => {
+    const token = ++runToken.current;
+    const requests = log.map((entry) => entry.request);
+    setIsBusy(true);
+    sandbox.reset();
+    for (let index = 0; index < requests.length; index += 1) {
+      setReplayStep(index);
+      await wait(REPLAY_DELAY_MS);
+      if (token !== runToken.current) return;
+      await sandbox.send(requests[index]);
+    }
+    setReplayStep(null);
+    setIsBusy(false);
+  };
+
+  const reset = () => {
+    runToken.current += 1;
+    sandbox.reset();
+    setLog([]);
+    setReplayStep(null);
+    setIsBusy(false);
+  };
+
+  const copyLog = () => {
+    const text = log.map((entry) => `await computer.interface.${formatCall(entry.request)}`).join('\n');
+    navigator.clipboard.writeText(text)
+      .then(() => {
+        setIsCopied(true);
+        setTimeout(() => setIsCopied(false), 2000);
+      })
+      .catch(() => undefined);
+  };
+
+  return (
+    <main className="max-w-6xl mx-auto mt-20 md:mt-32 px-4 pb-40 md:pb-24">
+      <h1 className="text-4xl font-bold mb-4 text-fg">{t('playground.title')}</h1>
+      <p className="mb-8 text-fg-muted max-w-3xl">{t('playground.description')}</p>
+
+      {/* Desktop */}
+      <div className="mb-8 rounded-xl overflow-hidden border border-line">
+        <canvas
+          ref={canvasRef}
+          onClick={handleCanvasClick}
+          role="img"
+          aria-label={t(desktop.windows.length === 1 ? 'playground.desktop.one' : 'playground.desktop.other', {
+            count: desktop.windows.length,
+          })}
+          className={`block w-full h-auto ${isBusy ? 'cursor-wait' : 'cursor-crosshair'}`}
+          style={{ aspectRatio: `${SCREEN_WIDTH} / ${SCREEN_HEIGHT}` }}
+        />
+      </div>
+
+      <div className="grid gap-8 lg:grid-cols-2">
+        {/* Script editor */}
+        <section>
+          <div className="flex items-center justify-between gap-4 mb-3">
+            <h2 className="text-xl font-bold text-fg">{t('playground.script')}</h2>
+            <Button size="sm" className="text-sm" onClick={runScript} disabled={isBusy}>
+              <Play size={14} />
+              <span>{t('playground.run')}</span>
+            </Button>
+          </div>
+          <textarea
+            value={script}
+            onChange={(e) => setScript(e.target.value)}
+            onKeyDown={handleEditorKeyDown}
+            spellCheck={false}
+            aria-label={t('playground.scriptLabel')}
+            aria-describedby="playground-script-hint"
+            rows={14}
+            className="w-full p-4 rounded-xl border font-mono text-sm bg-surface text-fg border-line focus:border-fg focus:outline-none transition-colors"
+          />
+          <p id="playground-script-hint" className="mt-2 text-xs text-fg-subtle">
+            {t('playground.scriptHint')}
+          </p>
+          {scriptError && (
+            <p role="alert" className="mt-2 text-sm text-red-600 dark:text-red-400">{scriptError}</p>
+          )}
+        </section>
+
+        {/* Action log */}
+        <section>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <h2 className="text-xl font-bold text-fg">{t('playground.log')}</h2>
+            <div className="flex gap-2">
+              <Button size="sm" className="text-sm" onClick={replay} disabled={isBusy || log.length === 0}>
+                <Repeat size={14} />
+                <span>{t('playground.replay')}</span>
+              </Button>
+              <Button size="sm" className="text-sm" onClick={copyLog} disabled={log.length === 0}>
+                {isCopied ? <Check size={14} /> : <Copy size={14} />}
+                <span>{t(isCopied ? 'snippet.copied' : 'playground.copyScript')}</span>
+              </Button>
+              <Button size="sm" className="text-sm" onClick={reset} aria-label={t('playground.resetLabel')}>
+                <RotateCcw size={14} />
+                <span>{t('playground.reset')}</span>
+              </Button>
+            </div>
+          </div>
+          {log.length === 0 ? (
+            <p className="flex items-center justify-center h-40 px-4 rounded-xl border border-dashed border-line text-sm text-center text-fg-subtle">
+              {t('playground.empty')}
+            </p>
+          ) : (
+            <ol className="flex flex-col gap-2 max-h-[28rem] overflow-y-auto" aria-live="polite">
+              {log.map((entry, index) => {
+                const { response } = entry;
+                const isActive = replayStep === index;
+                return (
+                  <li
+                    key={entry.id}
+                    aria-current={isActive ? 'step' : undefined}
+                    className={`p-3 rounded-xl border text-sm transition-colors ${
+                      isActive ? 'border-fg bg-surface-muted' : 'border-line'
+                    }`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {response.success
+                        ? <Check size={14} className="mt-0.5 flex-shrink-0 text-green-600 dark:text-green-400" aria-label={t('playground.succeeded')} />
+                        : <X size={14} className="mt-0.5 flex-shrink-0 text-red-600 dark:text-red-400" aria-label={t('playground.failed')} />}
+                      <code className="font-mono break-all text-fg">{formatCall(entry.request)}</code>
+                    </div>
+                    {!response.success && <p className="mt-1 ml-6 text-red-600 dark:text-red-400">{response.error}</p>}
+                    {response.success && isScreenshot(response.result) && (
+                      <img
+                        src={response.result.image}
+                        alt={t('playground.screenshot', { step: index + 1 })}
+                        className="mt-2 ml-6 w-48 rounded-md border border-line"
+                      />
+                    )}
+                    {response.success && response.result !== undefined && !isScreenshot(response.result) && (
+                      <p className="mt-1 ml-6 font-mono text-xs text-fg-subtle break-all">→ {JSON.stringify(response.result)}</p>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+};
+
+export default PlaygroundPage;
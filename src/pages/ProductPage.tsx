@@ -0,0 +1,112 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, ExternalLink, GitCommit, GitFork, Star, Tag } from 'lucide-react';
+import CodeSnippet from '../components/CodeSnippet';
+import { useI18n } from '../components/I18nProvider';
+import { Badge, PillLink } from '../components/ui';
+import useRepoStats from '../hooks/useRepoStats';
+import { formatCount } from '../services/githubStats';
+import { getProduct, getProductLinks, hasProductPage } from '../data/products';
+import { formatDate } from '../i18n/locales';
+import NotFound from './NotFound';
+
+const ProductPage = () => {
+  const { t, locale, localizePath } = useI18n();
+  const { productId } = useParams();
+  const product = getProduct(productId);
+  const stats = useRepoStats(product?.githubRepo);
+
+  if (!product || !hasProductPage(product)) {
+    return <NotFound />;
+  }
+
+  const { icon: Icon, name, tagline, status, features, architecture, install } = product;
+  const statusLabel = status === 'ga' ? null : t(`status.${status}`);
+  const headingClass = 'text-xl font-bold mb-4 text-fg';
+
+  return (
+    <main className="max-w-4xl mx-auto mt-20 md:mt-32 px-4 pb-40 md:pb-24">
+      <Link to={localizePath('/')} className="inline-flex items-center gap-1 text-sm mb-8 text-fg-subtle hover:text-link-hover">
+        <ChevronLeft size={16} />
+        <span>{t('product.back')}</span>
+      </Link>
+
+      {/* Hero */}
+      <div className="flex items-center gap-4 mb-4">
+        <Icon className="w-8 h-8 text-fg-muted" />
+        <h1 className="text-4xl font-bold text-fg">{name}</h1>
+        {statusLabel && (
+          <Badge>{statusLabel}</Badge>
+        )}
+      </div>
+      <div className="mb-12">
+        <p className="mb-4 text-fg-muted">{tagline}</p>
+        {stats && (
+          <div className="flex flex-wrap items-center gap-4 text-sm text-fg-subtle">
+            <span className="inline-flex items-center gap-1">
+              <Star size={14} className="fill-current" />
+              {t('product.stars', { count: formatCount(stats.stars) })}
+            </span>
+            <span className="inline-flex items-center gap-1">
+              <GitFork size={14} />
+              {t('product.forks', { count: formatCount(stats.forks) })}
+            </span>
+            {stats.latestRelease && (
+              <span className="inline-flex items-center gap-1">
+                <Tag size={14} />
+                {stats.latestRelease}
+              </span>
+            )}
+            {stats.lastCommit && (
+              <span className="inline-flex items-center gap-1">
+                <GitCommit size={14} />
+                {t('product.updated', { date: formatDate(locale, stats.lastCommit) })}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Features */}
+      <section className="mb-12">
+        <h2 className={headingClass}>{t('product.features')}</h2>
+        <ul className="list-disc pl-5 space-y-2 text-fg-muted">
+          {features.map((feature) => (
+            <li key={feature}>{feature}</li>
+          ))}
+        </ul>
+      </section>
+
+      {/* Architecture */}
+      <section className="mb-12">
+        <h2 className={headingClass}>{t('product.architecture')}</h2>
+        <div className="space-y-4">
+          {architecture.map((paragraph) => (
+            <p key={paragraph} className="leading-relaxed text-fg-muted">{paragraph}</p>
+          ))}
+        </div>
+      </section>
+
+      {/* Install */}
+      <section className="mb-12">
+        <h2 className={headingClass}>{t('product.install')}</h2>
+        <CodeSnippet tabs={[{ label: 'Shell', code: install }]} />
+      </section>
+
+      {/* Links */}
+      <section>
+        <h2 className={headingClass}>{t('product.links')}</h2>
+        <div className="flex flex-wrap gap-3">
+          {getProductLinks(product).map(({ label, href }) => (
+            <PillLink key={href} href={href} size="sm">
+              <span>{label}</span>
+              {href.startsWith('/') ? <ChevronRight size={14} /> : <ExternalLink size={14} />}
+            </PillLink>
+          ))}
+        </div>
+      </section>
+    </main>
+  );
+};
+
+export default ProductPage;
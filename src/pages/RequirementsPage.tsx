@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle2, Cpu, MinusCircle, XCircle } from 'lucide-react';
+import { useI18n } from '../components/I18nProvider';
+import { Button, Card } from '../components/ui';
+import requirements, { FeatureStatus, FeatureSupport, RequirementRow, matchRequirements } from '../data/requirements';
+import { track } from '../services/analytics';
+import { PlatformInfo, detectPlatform, osLabels } from '../services/platform';
+
+const statusIcons: Record<FeatureStatus, { icon: typeof CheckCircle2; className: string }> = {
+  yes: { icon: CheckCircle2, className: 'text-green-600 dark:text-green-400' },
+  partial: { icon: MinusCircle, className: 'text-amber-700 dark:text-amber-400' },
+  no: { icon: XCircle, className: 'text-fg-subtle' },
+};
+
+const FEATURES: (keyof RequirementRow['features'])[] = ['dockerInVm', 'gpu'];
+
+const FeatureCell = ({ feature }: { feature: FeatureSupport }) => {
+  const { t } = useI18n();
+  const { icon: Icon, className } = statusIcons[feature.status];
+  return (
+    <span className="flex items-start gap-2">
+      <Icon size={16} className={`flex-shrink-0 mt-0.5 ${className}`} aria-label={t(`requirements.status.${feature.status}`)} />
+      {feature.note && <span>{feature.note}</span>}
+    </span>
+  );
+};
+
+interface CheckResultProps {
+  platform: PlatformInfo;
+  matches: RequirementRow[];
+}
+
+const CheckResult = ({ platform, matches }: CheckResultProps) => {
+  const { t } = useI18n();
+  if (platform.os !== 'macos') {
+    return (
+      <p className="flex items-start gap-2 text-amber-700 dark:text-amber-400">
+        <AlertTriangle size={16} className="flex-shrink-0 mt-1" />
+        <span>
+          {t('requirements.notMac', { os: platform.os === 'unknown' ? t('platform.unknownOs') : osLabels[platform.os] })}
+        </span>
+      </p>
+    );
+  }
+  if (matches.length === 0) {
+    return (
+      <p className="text-fg-muted">{t('requirements.unknownChip')}</p>
+    );
+  }
+
+  const isSupported = matches.some((row) => row.supported);
+  const notes = Array.from(new Set(matches.filter((row) => !row.supported && row.note).map((row) => row.note)));
+  const chip = platform.chip
+    ? t('requirements.chip', { chip: platform.chip })
+    : t(platform.isAppleSilicon ? 'requirements.appleSilicon' : 'requirements.chipUnknown');
+  const version = platform.osVersion
+    ? t('requirements.macosVersion', { version: platform.osVersion })
+    : t('requirements.macosUnknown');
+  return (
+    <div className="space-y-2">
+      <p className="text-fg-muted">{t('requirements.detected', { chip, version })}</p>
+      {isSupported ? (
+        <p className="flex items-start gap-2 text-green-600 dark:text-green-400">
+          <CheckCircle2 size={16} className="flex-shrink-0 mt-1" />
+          <span>
+            {matches.every((row) => row.supported)
+              ? t('requirements.supported')
+              : t('requirements.supportedOn', { version: matches.find((row) => row.supported)!.macos })}
+          </span>
+        </p>
+      ) : (
+        <p className="flex items-start gap-2 text-amber-700 dark:text-amber-400">
+          <AlertTriangle size={16} className="flex-shrink-0 mt-1" />
+          <span>{t('requirements.unsupported')} {notes.join(' ')}</span>
+        </p>
+      )}
+      {matches.length > 1 && (
+        <p className="text-sm text-fg-subtle">{t('requirements.ambiguous')}</p>
+      )}
+    </div>
+  );
+};
+
+const RequirementsPage = () => {
+  const { t } = useI18n();
+  const [platform, setPlatform] = useState<PlatformInfo | null>(null);
+  const [isChecking, setChecking] = useState(false);
+  const matches = platform ? matchRequirements(platform) : [];
+
+  const checkMachine = async () => {
+    setChecking(true);
+    const info = await detectPlatform();
+    setPlatform(info);
+    setChecking(false);
+    track('requirements-check', { os: info.os, matches: matchRequirements(info).map((row) => row.id).join(',') });
+  };
+
+  return (
+    <main className="max-w-6xl mx-auto mt-20 md:mt-32 px-4 pb-40 md:pb-24">
+      <h1 className="text-4xl font-bold mb-4 text-fg">{t('requirements.title')}</h1>
+      <p className="mb-8 text-fg-muted max-w-3xl">{t('requirements.description')}</p>
+
+      {/* Check my machine */}
+      <Card as="section" className="mb-10" aria-labelledby="check-machine-title">
+        <div className="flex flex-col md:flex-row md:items-center gap-4 mb-4">
+          <div className="flex-1">
+            <h2 id="check-machine-title" className="text-lg font-semibold text-fg">{t('requirements.check')}</h2>
+            <p className="text-sm text-fg-subtle">{t('requirements.checkDescription')}</p>
+          </div>
+          <Button variant="primary" onClick={checkMachine} disabled={isChecking}>
+            <Cpu size={18} />
+            <span>{t(isChecking ? 'requirements.checking' : 'requirements.check')}</span>
+          </Button>
+        </div>
+        <div role="status">{platform && <CheckResult platform={platform} matches={matches} />}</div>
+      </Card>
+
+      {/* Compatibility matrix */}
+      <div className="overflow-x-auto rounded-xl border border-line">
+        <table className="w-full text-sm text-left">
+          <caption className="sr-only">{t('requirements.table')}</caption>
+          <thead className="text-fg">
+            <tr>
+              <th scope="col" className="px-4 py-3 font-semibold">{t('requirements.column.chip')}</th>
+              <th scope="col" className="px-4 py-3 font-semibold">{t('requirements.column.macos')}</th>
+              <th scope="col" className="px-4 py-3 font-semibold">{t('requirements.column.ram')}</th>
+              <th scope="col" className="px-4 py-3 font-semibold">{t('requirements.column.disk')}</th>
+              <th scope="col" className="px-4 py-3 font-semibold">{t('requirements.column.guests')}</th>
+              {FEATURES.map((feature) => (
+                <th key={feature} scope="col" className="px-4 py-3 font-semibold">
+                  {t(`requirements.feature.${feature}`)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="text-fg-muted">
+            {requirements.map((row) => {
+              const isMatch = matches.includes(row);
+              return (
+                <tr
+                  key={row.id}
+                  aria-current={isMatch ? 'true' : undefined}
+                  className={`border-t border-line align-top transition-colors ${
+                    isMatch ? 'bg-surface-muted' : ''
+                  }`}
+                >
+                  <th scope="row" className="px-4 py-3 font-medium text-fg whitespace-nowrap">
+                    {row.chip}
+                    {isMatch && <span className="block text-xs font-normal text-fg-subtle">{t('requirements.yourMac')}</span>}
+                  </th>
+                  <td className="px-4 py-3 whitespace-nowrap">{row.macos}</td>
+                  {row.supported ? (
+                    <>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {row.ramGb && t('requirements.ram', row.ramGb)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">{row.diskGb && `${row.diskGb} GB`}</td>
+                      <td className="px-4 py-3">
+                        <ul>
+                          {row.guests.map((guest) => (
+                            <li key={guest} className="whitespace-nowrap">{guest}</li>
+                          ))}
+                        </ul>
+                      </td>
+                      {FEATURES.map((feature) => (
+                        <td key={feature} className="px-4 py-3 min-w-[12rem]">
+                          <FeatureCell feature={row.features[feature]} />
+                        </td>
+                      ))}
+                    </>
+                  ) : (
+                    <td colSpan={3 + FEATURES.length} className="px-4 py-3">
+                      <span className="flex items-start gap-2">
+                        <XCircle size={16} className="flex-shrink-0 mt-0.5 text-fg-subtle" aria-label={t('requirements.status.no')} />
+                        <span>{row.note}</span>
+                      </span>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <ul className="mt-6 space-y-2 text-sm text-fg-subtle list-disc pl-5">
+        <li>{t('requirements.note.newerGuest')}</li>
+        <li>{t('requirements.note.twoGuests')}</li>
+        <li>{t('requirements.note.xcode')}</li>
+      </ul>
+    </main>
+  );
+};
+
+export default RequirementsPage;
@@ -0,0 +1,373 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AlertTriangle, Check, ChevronLeft, ChevronRight, FileJson, Link2, Search, Upload, X } from 'lucide-react';
+import { useI18n } from '../components/I18nProvider';
+import TrajectoryFrame from '../components/TrajectoryFrame';
+import { Button } from '../components/ui';
+import exampleTrajectories, { getExampleTrajectory } from '../data/trajectories';
+import { track } from '../services/analytics';
+import { StepFilter, Trajectory, describeAction, filterSteps, loadTrajectory, parseTrajectory } from '../services/trajectory';
+
+interface LoadedRun {
+  trajectory: Trajectory;
+  name: string;
+  // Set for bundled examples, which are the only runs a link can reopen
+  exampleId?: string;
+}
+
+const FILTER_OPTIONS: StepFilter[] = ['all', 'click', 'type', 'scroll', 'error'];
+
+const inputClass = 'px-3 py-2 rounded-xl border bg-surface text-fg border-line focus:border-fg focus:outline-none transition-colors';
+
+// "+1:05" from the first step's timestamp
+const formatOffset = (timestamp: string | undefined, start: string | undefined): string | null => {
+  const elapsed = timestamp && start ? (Date.parse(timestamp) - Date.parse(start)) / 1000 : NaN;
+  if (Number.isNaN(elapsed)) return null;
+  return `+${Math.floor(elapsed / 60)}:${Math.floor(elapsed % 60).toString().padStart(2, '0')}`;
+};
+
+// Screenshots uploaded with a log are shown through blob: URLs until the run is closed
+const revokeObjectUrls = (urls: React.MutableRefObject<string[]>) => {
+  urls.current.forEach((url) => URL.revokeObjectURL(url));
+  urls.current = [];
+};
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const TrajectoryPage = () => {
+  const { t, localizePath } = useI18n();
+  // Example, step and filters live in the query string, so a link reopens the same view
+  const [searchParams, setSearchParams] = useSearchParams();
+  const exampleId = searchParams.get('example');
+  const example = getExampleTrajectory(exampleId);
+  const filter = (searchParams.get('filter') as StepFilter | null) ?? 'all';
+  const query = searchParams.get('q') ?? '';
+
+  const [run, setRun] = useState<LoadedRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const objectUrls = useRef<string[]>([]);
+
+  useEffect(() => () => revokeObjectUrls(objectUrls), []);
+
+  useEffect(() => {
+    if (!example) return;
+    let isCancelled = false;
+    setIsLoading(true);
+    setError(null);
+    loadTrajectory(example.src)
+      .then((trajectory) => {
+        if (isCancelled) return;
+        revokeObjectUrls(objectUrls);
+        setRun({ trajectory, name: example.title, exampleId: example.id });
+        track('trajectory-open', { source: 'example', steps: trajectory.steps.length });
+      })
+      .catch((loadError: unknown) => {
+        if (!isCancelled) setError(loadError instanceof Error ? loadError.message : String(loadError));
+      })
+      .finally(() => !isCancelled && setIsLoading(false));
+    return () => {
+      isCancelled = true;
+    };
+  }, [example]);
+
+  const updateParams = (updates: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === null) {
+        next.delete(key);
+      } else {
+        next.set(key, value);
+      }
+    });
+    setSearchParams(next, { replace: true });
+  };
+
+  // Parsing happens here in the browser; the files are never uploaded anywhere
+  const openFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    const log = files.find((file) => /\.jsonl?$/i.test(file.name));
+    if (!log) {
+      setError(t('trajectory.error.noLog'));
+      return;
+    }
+    const images = files.filter((file) => file.type.startsWith('image/'));
+    const imageUrls = Object.fromEntries(images.map((file) => [file.name, URL.createObjectURL(file)]));
+    try {
+      const trajectory = parseTrajectory(await log.text(), { files: imageUrls });
+      revokeObjectUrls(objectUrls);
+      objectUrls.current = Object.values(imageUrls);
+      setRun({ trajectory, name: log.name });
+      setError(null);
+      setSearchParams(new URLSearchParams(), { replace: true });
+      track('trajectory-open', { source: 'upload', steps: trajectory.steps.length, screenshots: images.length });
+    } catch (parseError: unknown) {
+      Object.values(imageUrls).forEach((url) => URL.revokeObjectURL(url));
+      setError(`${log.name}: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+    }
+  };
+
+  const close = () => {
+    revokeObjectUrls(objectUrls);
+    setRun(null);
+    setError(null);
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
+
+  const errorMessage = exampleId && !example ? t('trajectory.error.unknownExample', { id: exampleId }) : error;
+  const steps = run ? filterSteps(run.trajectory.steps, filter, query) : [];
+  const requestedStep = Number(searchParams.get('step'));
+  const position = Math.max(0, steps.findIndex((step) => step.index === requestedStep));
+  const step = steps[position];
+  const start = run?.trajectory.steps[0].timestamp;
+
+  const showPosition = (next: number) => {
+    if (steps.length === 0) return;
+    const clamped = Math.min(Math.max(0, next), steps.length - 1);
+    updateParams({ step: String(steps[clamped].index) });
+  };
+
+  // Left/right arrows scrub through the visible steps
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!run || isEditable(event.target) || event.metaKey || event.ctrlKey || event.altKey) return;
+      if (event.key === 'ArrowLeft') {
+        event.preventDefault();
+        showPosition(position - 1);
+      } else if (event.key === 'ArrowRight') {
+        event.preventDefault();
+        showPosition(position + 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => {
+        setIsCopied(true);
+        setTimeout(() => setIsCopied(false), 2000);
+      })
+      .catch(() => undefined);
+  };
+
+  return (
+    <main className="max-w-6xl mx-auto mt-20 md:mt-32 px-4 pb-40 md:pb-24">
+      <h1 className="text-4xl font-bold mb-4 text-fg">{t('trajectory.title')}</h1>
+      <p className="mb-8 text-fg-muted max-w-3xl">
+        {t('trajectory.description')}{' '}
+        <Link to={localizePath('/docs/trajectory-format')} className="underline underline-offset-2 text-link hover:text-link-hover">
+          {t('trajectory.formatLink')}
+        </Link>
+      </p>
+
+      {/* Open a log */}
+      {!run && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <label
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              openFiles(e.dataTransfer.files);
+            }}
+            className={`flex flex-col items-center justify-center gap-2 p-8 rounded-xl border-2 border-dashed text-center cursor-pointer transition-colors ${
+              isDragging ? 'border-fg bg-surface-muted' : 'border-line hover:border-line-strong'
+            }`}
+          >
+            <Upload size={24} className="text-fg-subtle" />
+            <span className="font-medium text-fg">{t('trajectory.drop')}</span>
+            <span className="text-sm text-fg-subtle">{t('trajectory.dropHint')}</span>
+            <input
+              type="file"
+              multiple
+              accept=".json,.jsonl,application/json,image/*"
+              onChange={(e) => {
+                openFiles(e.target.files);
+                e.target.value = '';
+              }}
+              className="sr-only"
+            />
+          </label>
+          <div className="flex flex-col gap-3">
+            <h2 className="text-sm font-medium text-fg-subtle">{t('trajectory.examples')}</h2>
+            {exampleTrajectories.map((item) => (
+              <button
+                key={item.id}
+                onClick={() => setSearchParams(new URLSearchParams({ example: item.id }))}
+                className="flex items-start gap-3 p-4 rounded-xl border text-left border-line hover:border-line-strong transition-colors"
+              >
+                <FileJson size={20} className="flex-shrink-0 mt-0.5 text-fg-subtle" />
+                <span>
+                  <span className="block font-medium text-fg">{item.title}</span>
+                  <span className="block text-sm text-fg-muted">{item.description}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isLoading && <p className="mt-6 text-fg-subtle" aria-live="polite">{t('trajectory.loading')}</p>}
+      {errorMessage && (
+        <p role="alert" className="mt-6 flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+          <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+          <span>{errorMessage}</span>
+        </p>
+      )}
+
+      {run && (
+        <>
+          {/* Run summary */}
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-fg">{run.trajectory.task ?? run.name}</h2>
+              <p className="text-sm text-fg-subtle">
+                {[run.name, run.trajectory.model, t('trajectory.steps', { count: run.trajectory.steps.length })].filter(Boolean).join(' · ')}
+              </p>
+              {!run.exampleId && (
+                <p className="text-xs text-fg-subtle">{t('trajectory.uploadedNote')}</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" className="text-sm" onClick={copyLink} disabled={!run.exampleId}>
+                {isCopied ? <Check size={14} /> : <Link2 size={14} />}
+                <span>{t(isCopied ? 'snippet.copied' : 'trajectory.copyLink')}</span>
+              </Button>
+              <Button size="sm" className="text-sm" onClick={close}>
+                <X size={14} />
+                <span>{t('trajectory.close')}</span>
+              </Button>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-col md:flex-row gap-3 mb-6">
+            <div role="group" aria-label={t('trajectory.stepType')} className="flex flex-wrap rounded-xl border border-line overflow-hidden">
+              {FILTER_OPTIONS.map((option) => (
+                <button
+                  key={option}
+                  onClick={() => updateParams({ filter: option === 'all' ? null : option, step: null })}
+                  aria-pressed={filter === option}
+                  className={`px-4 py-2 text-sm transition-colors ${
+                    filter === option ? 'bg-inverse text-inverse-fg' : 'text-link hover:text-link-hover'
+                  }`}
+                >
+                  {t(`trajectory.filter.${option}`)}
+                </button>
+              ))}
+            </div>
+            <label className="relative flex-1">
+              <span className="sr-only">{t('trajectory.search')}</span>
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-fg-subtle" />
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => updateParams({ q: e.target.value || null, step: null })}
+                placeholder={t('trajectory.searchPlaceholder')}
+                className={`${inputClass} w-full pl-9`}
+              />
+            </label>
+          </div>
+
+          {!step ? (
+            <p className="text-fg-subtle">{t('trajectory.empty')}</p>
+          ) : (
+            <>
+              <div className="grid gap-6 lg:grid-cols-3">
+                <div className="lg:col-span-2">
+                  <TrajectoryFrame step={step} screen={run.trajectory.screen} />
+                </div>
+
+                {/* Step details */}
+                <section aria-live="polite" className="min-w-0">
+                  <div className="flex items-baseline justify-between gap-2 mb-3">
+                    <h3 className="font-bold text-fg">
+                      {t('trajectory.stepOf', { step: step.index, total: run.trajectory.steps.length })}
+                    </h3>
+                    {formatOffset(step.timestamp, start) && (
+                      <span className="font-mono text-xs text-fg-subtle">{formatOffset(step.timestamp, start)}</span>
+                    )}
+                  </div>
+                  {step.reasoning && (
+                    <>
+                      <h4 className="text-xs font-medium uppercase tracking-wide text-fg-subtle mb-1">{t('trajectory.reasoning')}</h4>
+                      <p className="mb-4 text-sm text-fg-muted whitespace-pre-wrap">{step.reasoning}</p>
+                    </>
+                  )}
+                  <h4 className="text-xs font-medium uppercase tracking-wide text-fg-subtle mb-1">{t('trajectory.actions')}</h4>
+                  {step.actions.length === 0 ? (
+                    <p className="text-sm text-fg-subtle">{t('trajectory.noAction')}</p>
+                  ) : (
+                    <ol className="flex flex-col gap-1 text-sm list-decimal list-inside text-fg">
+                      {step.actions.map((action, index) => (
+                        <li key={index} className="font-mono break-all">{describeAction(action, t)}</li>
+                      ))}
+                    </ol>
+                  )}
+                  {step.error && (
+                    <p className="mt-4 flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+                      <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                      <span className="break-words">{step.error}</span>
+                    </p>
+                  )}
+                </section>
+              </div>
+
+              {/* Timeline */}
+              <div className="mt-6">
+                <div className="flex items-center gap-3">
+                  <button onClick={() => showPosition(position - 1)} disabled={position === 0} aria-label={t('trajectory.previous')} className="p-1 rounded-full text-link hover:text-link-hover disabled:opacity-50">
+                    <ChevronLeft size={20} />
+                  </button>
+                  <input
+                    type="range"
+                    min={0}
+                    max={steps.length - 1}
+                    value={position}
+                    onChange={(e) => showPosition(Number(e.target.value))}
+                    aria-label={t('trajectory.timeline')}
+                    aria-valuetext={t('trajectory.step', { step: step.index })}
+                    className="flex-1 accent-current text-fg"
+                  />
+                  <button onClick={() => showPosition(position + 1)} disabled={position === steps.length - 1} aria-label={t('trajectory.next')} className="p-1 rounded-full text-link hover:text-link-hover disabled:opacity-50">
+                    <ChevronRight size={20} />
+                  </button>
+                </div>
+                <ol className="flex gap-2 mt-3 pb-2 overflow-x-auto">
+                  {steps.map((item, index) => (
+                    <li key={item.index} className="flex-shrink-0">
+                      <button
+                        onClick={() => showPosition(index)}
+                        aria-current={index === position ? 'step' : undefined}
+                        aria-label={t('trajectory.step', { step: item.index })}
+                        className={`relative block w-28 aspect-video overflow-hidden rounded-lg border-2 bg-surface-muted transition-colors ${
+                          index === position ? 'border-fg' : 'border-transparent hover:border-line-strong'
+                        }`}
+                      >
+                        {item.screenshot && <img src={item.screenshot} alt="" loading="lazy" className="w-full h-full object-cover" />}
+                        <span className={`absolute left-1 bottom-1 px-1.5 rounded text-xs font-medium ${item.error ? 'bg-red-600 text-white' : 'bg-black/70 text-white'}`}>
+                          {item.index}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </main>
+  );
+};
+
+export default TrajectoryPage;
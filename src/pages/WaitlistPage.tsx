@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, ClipboardList } from 'lucide-react';
+import { useI18n } from '../components/I18nProvider';
+import { Button } from '../components/ui';
+import products from '../data/products';
+import { MessageKey } from '../i18n/locales';
+import {
+  HARDWARE_OPTIONS,
+  SubmitResult,
+  WaitlistEntry,
+  WaitlistErrors,
+  submitWaitlistEntry,
+  validateWaitlistEntry,
+} from '../services/waitlist';
+
+const emptyEntry: WaitlistEntry = {
+  email: '',
+  useCase: '',
+  hardware: '',
+  products: [],
+};
+
+const inputClass = 'w-full px-4 py-2.5 rounded-xl border bg-surface text-fg border-line focus:border-fg focus:outline-none transition-colors';
+const labelClass = 'block text-sm font-medium mb-2 text-fg';
+
+const FieldError = ({ id, message }: { id: string; message?: MessageKey }) => {
+  const { t } = useI18n();
+  return message ? <p id={id} className="mt-2 text-sm text-red-600 dark:text-red-400">{t(message)}</p> : null;
+};
+
+const WaitlistPage = () => {
+  const { t, localizePath } = useI18n();
+  const [entry, setEntry] = useState<WaitlistEntry>(emptyEntry);
+  const [errors, setErrors] = useState<WaitlistErrors>({});
+  const [honeypot, setHoneypot] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<SubmitResult | null>(null);
+
+  const update = <K extends keyof WaitlistEntry>(key: K, value: WaitlistEntry[K]) => {
+    setEntry((prev) => ({ ...prev, [key]: value }));
+    setErrors((prev) => ({ ...prev, [key]: undefined }));
+  };
+
+  const toggleProduct = (id: string) => {
+    update('products', entry.products.includes(id)
+      ? entry.products.filter((product) => product !== id)
+      : [...entry.products, id]);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    // Bots fill every field; quietly pretend it worked
+    if (honeypot) {
+      setResult('submitted');
+      return;
+    }
+
+    const validationErrors = validateWaitlistEntry(entry);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSubmitting(true);
+    setResult(await submitWaitlistEntry({ ...entry, email: entry.email.trim(), useCase: entry.useCase.trim() }));
+    setIsSubmitting(false);
+  };
+
+  if (result) {
+    return (
+      <main className="max-w-xl mx-auto mt-20 md:mt-32 text-center px-4 pb-40 md:pb-24">
+        <div className="flex justify-center mb-6">
+          <Check className="w-12 h-12 text-fg" />
+        </div>
+        <h1 className="text-4xl font-bold mb-4 text-fg">
+          {t(result === 'submitted' ? 'waitlist.submittedTitle' : 'waitlist.queuedTitle')}
+        </h1>
+        <p className="mb-8 text-fg-muted">
+          {t(result === 'submitted' ? 'waitlist.submittedDescription' : 'waitlist.queuedDescription')}
+        </p>
+        <Link to={localizePath('/')} className="text-link hover:text-link-hover underline underline-offset-2">{t('waitlist.back')}</Link>
+      </main>
+    );
+  }
+
+  return (
+    <main className="max-w-xl mx-auto mt-20 md:mt-32 px-4 pb-40 md:pb-24">
+      <h1 className="text-4xl font-bold mb-4 text-fg">{t('waitlist.title')}</h1>
+      <p className="mb-10 text-fg-muted">
+        {t('waitlist.description')}
+      </p>
+
+      <form onSubmit={handleSubmit} noValidate className="space-y-6">
+        <div>
+          <label htmlFor="waitlist-email" className={labelClass}>{t('waitlist.email')}</label>
+          <input
+            id="waitlist-email"
+            type="email"
+            autoComplete="email"
+            value={entry.email}
+            onChange={(e) => update('email', e.target.value)}
+            aria-invalid={Boolean(errors.email)}
+            aria-describedby={errors.email ? 'waitlist-email-error' : undefined}
+            className={inputClass}
+          />
+          <FieldError id="waitlist-email-error" message={errors.email} />
+        </div>
+
+        <div>
+          <label htmlFor="waitlist-use-case" className={labelClass}>{t('waitlist.useCase')}</label>
+          <textarea
+            id="waitlist-use-case"
+            rows={4}
+            value={entry.useCase}
+            onChange={(e) => update('useCase', e.target.value)}
+            aria-invalid={Boolean(errors.useCase)}
+            aria-describedby={errors.useCase ? 'waitlist-use-case-error' : undefined}
+            className={inputClass}
+          />
+          <FieldError id="waitlist-use-case-error" message={errors.useCase} />
+        </div>
+
+        <div>
+          <label htmlFor="waitlist-hardware" className={labelClass}>{t('waitlist.hardware')}</label>
+          <select
+            id="waitlist-hardware"
+            value={entry.hardware}
+            onChange={(e) => update('hardware', e.target.value as WaitlistEntry['hardware'])}
+            aria-invalid={Boolean(errors.hardware)}
+            aria-describedby={errors.hardware ? 'waitlist-hardware-error' : undefined}
+            className={inputClass}
+          >
+            <option value="">{t('waitlist.hardwarePlaceholder')}</option>
+            {HARDWARE_OPTIONS.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <FieldError id="waitlist-hardware-error" message={errors.hardware} />
+        </div>
+
+        <fieldset aria-describedby={errors.products ? 'waitlist-products-error' : undefined}>
+          <legend className={labelClass}>{t('waitlist.products')}</legend>
+          <div className="flex flex-wrap gap-3">
+            {products.map(({ id, name }) => (
+              <label
+                key={id}
+                className={`inline-flex items-center gap-2 h-8 py-0 px-3 rounded-full border cursor-pointer transition-[border-color,color] duration-200 ease-in-out ${
+                  entry.products.includes(id)
+                    ? 'text-fg border-fg'
+                    : 'text-link hover:text-link-hover border-line hover:border-line-strong'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  className="sr-only"
+                  checked={entry.products.includes(id)}
+                  onChange={() => toggleProduct(id)}
+                />
+                {entry.products.includes(id) && <Check size={14} />}
+                <span>{name}</span>
+              </label>
+            ))}
+          </div>
+          <FieldError id="waitlist-products-error" message={errors.products} />
+        </fieldset>
+
+        {/* Honeypot: hidden from people, irresistible to bots */}
+        <div className="absolute -left-[9999px]" aria-hidden="true">
+          <label htmlFor="waitlist-company">Company</label>
+          <input
+            id="waitlist-company"
+            type="text"
+            name="company"
+            tabIndex={-1}
+            autoComplete="off"
+            value={honeypot}
+            onChange={(e) => setHoneypot(e.target.value)}
+          />
+        </div>
+
+        <Button type="submit" variant="primary" disabled={isSubmitting}>
+          <span>{t(isSubmitting ? 'waitlist.submitting' : 'waitlist.submit')}</span>
+          <ClipboardList size={20} />
+        </Button>
+      </form>
+    </main>
+  );
+};
+
+export default WaitlistPage;
@@ -0,0 +1,15 @@
+// Server entry bundled by scripts/prerender.js; never imported by the client bundle.
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom/server';
+import Root from './Root';
+
+export { getOfflineRoutes, getPageMeta, getPrerenderRoutes, SITE_URL } from './data/pageMeta';
+
+export const render = (url: string): string => renderToString(
+  <React.StrictMode>
+    <StaticRouter location={url}>
+      <Root />
+    </StaticRouter>
+  </React.StrictMode>
+);
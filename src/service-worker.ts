@@ -0,0 +1,139 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Compiled by react-scripts (Workbox InjectManifest) into build/service-worker.js.
+// - Webpack assets are precached from the injected manifest.
+// - Pages are network-first with a short timeout, falling back to a cached copy
+//   and then to the empty app shell, which renders any route client-side.
+// - The shell, the search index and the pages listed in offline-pages.json
+//   (written by scripts/prerender.js) are cached on install; the search index
+//   is network-first like pages.
+// - Demo videos are cached whole in the background and served with range
+//   support, since <video> only ever asks for byte ranges.
+// A new worker waits until the page asks it to take over (see services/pwa.ts).
+
+import { clientsClaim } from 'workbox-core';
+import { precacheAndRoute } from 'workbox-precaching';
+import { createPartialResponse } from 'workbox-range-requests';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+
+declare const self: ServiceWorkerGlobalScope;
+
+const PAGES_CACHE = 'pages-v1';
+const MEDIA_CACHE = 'media-v1';
+const SHELL_URL = '/shell.html';
+const OFFLINE_PAGES_URL = '/offline-pages.json';
+const SEARCH_INDEX_URL = '/search-index.json';
+// Flaky Wi-Fi is worse than none; give up and serve the cached page after this
+const NETWORK_TIMEOUT_MS = 3000;
+
+clientsClaim();
+
+precacheAndRoute(self.__WB_MANIFEST);
+
+// "/docs/faq/" and "/docs/faq" are the same page
+const pageKey = (pathname: string) => pathname.replace(/\/+$/, '') || '/';
+
+// Prerendered files live at <route>/index.html; fetching them directly avoids
+// the trailing-slash redirect GitHub Pages adds
+const pageFile = (route: string) => (route === '/' ? '/index.html' : `${route}/index.html`);
+
+const cachePages = async () => {
+  const cache = await caches.open(PAGES_CACHE);
+  const response = await fetch(OFFLINE_PAGES_URL, { cache: 'no-store' });
+  const routes: string[] = response.ok ? await response.json() : [];
+  await Promise.all([
+    cache.add(SHELL_URL),
+    cache.add(SEARCH_INDEX_URL),
+    ...routes.map(async (route) => {
+      const page = await fetch(pageFile(route), { cache: 'no-store' });
+      if (page.ok) {
+        await cache.put(route, page);
+      }
+    }),
+  ]);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(cachePages());
+});
+
+// Old page and media caches are dropped once a worker with new cache names takes over
+self.addEventListener('activate', (event) => {
+  const current = [PAGES_CACHE, MEDIA_CACHE];
+  event.waitUntil(
+    caches.keys().then((keys) => Promise.all(
+      keys
+        .filter((key) => /^(pages|media)-v\d+$/.test(key) && !current.includes(key))
+        .map((key) => caches.delete(key))
+    ))
+  );
+});
+
+const fetchWithTimeout = (request: Request, timeoutMs: number) =>
+  new Promise<Response>((resolve, reject) => {
+    const timeoutId = setTimeout(() => reject(new Error('Network timeout')), timeoutMs);
+    fetch(request).then(resolve, reject).finally(() => clearTimeout(timeoutId));
+  });
+
+// Network first, refreshing the cached copy under `key`; offline, falls back to
+// that copy and then to `fallbackUrl`
+const networkFirst = async (request: Request, key: string, fallbackUrl?: string): Promise<Response> => {
+  const cache = await caches.open(PAGES_CACHE);
+  try {
+    const response = await fetchWithTimeout(request, NETWORK_TIMEOUT_MS);
+    if (response.ok && response.type === 'basic') {
+      await cache.put(key, response.clone());
+    }
+    return response;
+  } catch {
+    return (await cache.match(key))
+      ?? (fallbackUrl ? await cache.match(fallbackUrl) : undefined)
+      ?? Response.error();
+  }
+};
+
+registerRoute(new NavigationRoute(({ request, url }) => networkFirst(request, pageKey(url.pathname), SHELL_URL)));
+
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && url.pathname === SEARCH_INDEX_URL,
+  ({ request }) => networkFirst(request, SEARCH_INDEX_URL)
+);
+
+const pendingVideos = new Set<string>();
+
+// Fetches the whole file (no Range header) so later range requests can be answered offline
+const cacheFullVideo = async (url: string) => {
+  if (pendingVideos.has(url)) return;
+  pendingVideos.add(url);
+  try {
+    const response = await fetch(url);
+    if (response.status === 200) {
+      const cache = await caches.open(MEDIA_CACHE);
+      await cache.put(url, response);
+    }
+  } catch {
+    // Try again the next time the video is requested
+  } finally {
+    pendingVideos.delete(url);
+  }
+};
+
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && url.pathname.endsWith('.mp4'),
+  async ({ request, event }) => {
+    const cached = await caches.match(request.url, { cacheName: MEDIA_CACHE });
+    if (cached) {
+      return request.headers.has('range') ? createPartialResponse(request, cached) : cached;
+    }
+    // The network answers this range now; the full download lands in the cache for next time
+    (event as ExtendableEvent).waitUntil(cacheFullVideo(request.url));
+    return fetch(request);
+  }
+);
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
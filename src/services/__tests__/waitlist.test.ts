@@ -0,0 +1,55 @@
+import {
+  WaitlistEntry,
+  createTypeformAdapter,
+  createUnconfiguredAdapter,
+  flushWaitlistQueue,
+  submitWaitlistEntry,
+} from '../waitlist';
+
+const entry: WaitlistEntry = {
+  email: 'ada@example.com',
+  useCase: 'Automating UI tests in macOS VMs',
+  hardware: 'M2',
+  products: ['computer'],
+};
+
+describe('waitlist', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('queues entries when no backend is configured, without opening windows', async () => {
+    const open = jest.spyOn(window, 'open').mockImplementation(() => null);
+    await expect(submitWaitlistEntry(entry, createUnconfiguredAdapter('none'))).resolves.toBe('queued');
+    await expect(flushWaitlistQueue(createUnconfiguredAdapter('none'))).resolves.toBe(0);
+    expect(JSON.parse(localStorage.getItem('waitlist-queue')!)).toHaveLength(1);
+    expect(open).not.toHaveBeenCalled();
+  });
+
+  it('sends queued entries once a backend accepts them', async () => {
+    await submitWaitlistEntry(entry, createUnconfiguredAdapter('offline'));
+    const submit = jest.fn().mockResolvedValue(undefined);
+    await expect(flushWaitlistQueue({ name: 'test', submit })).resolves.toBe(1);
+    expect(submit).toHaveBeenCalledWith(entry);
+    expect(localStorage.getItem('waitlist-queue')).toBeNull();
+  });
+
+  it('opens the Typeform with the answers as hidden fields', async () => {
+    const open = jest.spyOn(window, 'open').mockImplementation(() => ({} as Window));
+    await expect(submitWaitlistEntry(entry, createTypeformAdapter('form-id'))).resolves.toBe('submitted');
+    expect(open).toHaveBeenCalledWith(
+      'https://form.typeform.com/to/form-id#email=ada%40example.com&use_case=Automating+UI+tests+in+macOS+VMs&hardware=M2&products=computer',
+      '_blank'
+    );
+  });
+
+  it('queues entries when the Typeform window is blocked, without retrying them in the background', async () => {
+    const open = jest.spyOn(window, 'open').mockImplementation(() => null);
+    const adapter = createTypeformAdapter('form-id');
+    await expect(submitWaitlistEntry(entry, adapter)).resolves.toBe('queued');
+    await expect(flushWaitlistQueue(adapter)).resolves.toBe(0);
+    expect(open).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(localStorage.getItem('waitlist-queue')!)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,150 @@
+import type { Metric } from 'web-vitals';
+
+export type AnalyticsProps = Record<string, string | number | boolean>;
+
+export interface AnalyticsEvent {
+  name: string;
+  props: AnalyticsProps;
+  path: string;
+  timestamp: number;
+}
+
+// Where batched events go; `send` must be safe to call while the page unloads
+export interface AnalyticsTransport {
+  name: string;
+  send: (events: AnalyticsEvent[]) => void;
+}
+
+export type Consent = 'granted' | 'denied';
+
+// Stored in localStorage rather than a cookie, so nothing is sent with requests
+const CONSENT_KEY = 'analytics-consent';
+// Flush early if a long visit piles up events before the page is hidden
+const MAX_BATCH_SIZE = 50;
+
+let queue: AnalyticsEvent[] = [];
+
+export const createBeaconTransport = (endpoint: string): AnalyticsTransport => ({
+  name: 'beacon',
+  send: (events) => {
+    const body = JSON.stringify({ events });
+    if (navigator.sendBeacon?.(endpoint, new Blob([body], { type: 'application/json' }))) {
+      return;
+    }
+    // sendBeacon is missing or refused the payload; keepalive survives unload too
+    fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: true,
+    }).catch(() => undefined);
+  },
+});
+
+// Local sink for development
+export const createConsoleTransport = (): AnalyticsTransport => ({
+  name: 'console',
+  send: (events) => {
+    console.info('Analytics batch (console transport):', events);
+  },
+});
+
+/**
+ * Picks the transport from REACT_APP_ANALYTICS_PROVIDER and
+ * REACT_APP_ANALYTICS_ENDPOINT. Without an endpoint, production builds collect
+ * nothing and development builds log to the console.
+ */
+export const getAnalyticsTransport = (): AnalyticsTransport | null => {
+  const provider = process.env.REACT_APP_ANALYTICS_PROVIDER;
+  const endpoint = process.env.REACT_APP_ANALYTICS_ENDPOINT;
+
+  if (provider === 'console') return createConsoleTransport();
+  if (endpoint) return createBeaconTransport(endpoint);
+  return process.env.NODE_ENV === 'production' ? null : createConsoleTransport();
+};
+
+/** True when the browser sends Do Not Track or Global Privacy Control. */
+export const isDoNotTrack = (): boolean => {
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean; msDoNotTrack?: string };
+  const win = window as Window & { doNotTrack?: string };
+  return [nav.doNotTrack, win.doNotTrack, nav.msDoNotTrack].some((value) => value === '1' || value === 'yes')
+    || nav.globalPrivacyControl === true;
+};
+
+export const getConsent = (): Consent | null => {
+  try {
+    const value = localStorage.getItem(CONSENT_KEY);
+    return value === 'granted' || value === 'denied' ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+type ConsentListener = (consent: Consent | null) => void;
+const consentListeners = new Set<ConsentListener>();
+
+/** Records the visitor's choice; `null` forgets it so the banner asks again. */
+export const setConsent = (consent: Consent | null) => {
+  try {
+    if (consent) {
+      localStorage.setItem(CONSENT_KEY, consent);
+    } else {
+      localStorage.removeItem(CONSENT_KEY);
+    }
+  } catch {
+    // Without storage the choice only lasts for this page view
+  }
+  if (consent !== 'granted') {
+    queue = [];
+  }
+  consentListeners.forEach((listener) => listener(consent));
+};
+
+export const subscribeToConsent = (listener: ConsentListener) => {
+  consentListeners.add(listener);
+  return () => {
+    consentListeners.delete(listener);
+  };
+};
+
+const transport = typeof window === 'undefined' ? null : getAnalyticsTransport();
+
+/** False when no transport is configured, in which case there is nothing to consent to. */
+export const isAnalyticsEnabled = () => transport !== null;
+
+const isTrackingAllowed = () =>
+  isAnalyticsEnabled() && !isDoNotTrack() && getConsent() === 'granted';
+
+export const flushAnalytics = () => {
+  if (!transport || queue.length === 0) return;
+  const batch = queue;
+  queue = [];
+  transport.send(batch);
+};
+
+/** Queues an event; nothing is recorded without consent or when Do Not Track is on. */
+export const track = (name: string, props: AnalyticsProps = {}) => {
+  if (!isTrackingAllowed()) return;
+  queue.push({ name, props, path: window.location.pathname, timestamp: Date.now() });
+  if (queue.length >= MAX_BATCH_SIZE) {
+    flushAnalytics();
+  }
+};
+
+export const trackWebVital = ({ name, value, rating, id }: Metric) => {
+  // CLS is unitless and tiny; everything else is milliseconds
+  track('web-vital', { metric: name, value: name === 'CLS' ? Number(value.toFixed(4)) : Math.round(value), rating, id });
+};
+
+// Batches go out when the tab is hidden, which also covers closing and navigating away.
+// web-vitals reports its final CLS, INP and LCP from its own hide listeners, which
+// may run after this one, so the flush waits a task for them to be queued. pagehide
+// is the last chance before unload, where a timer might never fire.
+if (typeof window !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      setTimeout(flushAnalytics, 0);
+    }
+  });
+  window.addEventListener('pagehide', flushAnalytics);
+}
@@ -0,0 +1,192 @@
+// Parses Computer interface calls written the way they look in Python, e.g.
+// `await computer.interface.left_click(100, 200)`, into sandbox requests, and
+// formats requests back into calls for the action log.
+import { SandboxRequest } from './mockSandbox';
+
+// Positional parameter names per command; a leading "..." collects the rest into a list
+export const COMMAND_SIGNATURES: Record<string, string[]> = {
+  left_click: ['x', 'y'],
+  right_click: ['x', 'y'],
+  double_click: ['x', 'y'],
+  move_cursor: ['x', 'y'],
+  type_text: ['text'],
+  press_key: ['key'],
+  hotkey: ['...keys'],
+  screenshot: [],
+  get_screen_size: [],
+  get_cursor_position: [],
+  copy_to_clipboard: [],
+};
+
+const scriptError = (message: string, line: number) => new Error(`Line ${line}: ${message}`);
+
+type Token = { kind: 'value'; value: unknown } | { kind: 'name'; value: string } | { kind: 'symbol'; value: string };
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', '\\': '\\', '\'': '\'', '"': '"' };
+
+const tokenizeArgs = (source: string, line: number): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === '"' || char === '\'') {
+      let value = '';
+      index += 1;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          value += ESCAPES[source[index + 1]] ?? source[index + 1];
+          index += 2;
+        } else {
+          value += source[index];
+          index += 1;
+        }
+      }
+      if (index >= source.length) {
+        throw scriptError('unterminated string', line);
+      }
+      index += 1;
+      tokens.push({ kind: 'value', value });
+    } else if (/[-\d.]/.test(char)) {
+      const match = source.slice(index).match(/^-?\d+(\.\d+)?/);
+      if (!match) {
+        throw scriptError(`unexpected "${char}"`, line);
+      }
+      tokens.push({ kind: 'value', value: Number(match[0]) });
+      index += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = source.slice(index).match(/^\w+/)![0];
+      index += name.length;
+      if (name === 'True' || name === 'False') {
+        tokens.push({ kind: 'value', value: name === 'True' });
+      } else if (name === 'None') {
+        tokens.push({ kind: 'value', value: null });
+      } else {
+        tokens.push({ kind: 'name', value: name });
+      }
+    } else if (char === ',' || char === '=' || char === '[' || char === ']') {
+      tokens.push({ kind: 'symbol', value: char });
+      index += 1;
+    } else {
+      throw scriptError(`unexpected "${char}"`, line);
+    }
+  }
+  return tokens;
+};
+
+// Splits the tokens on top-level commas into positional values and keyword values
+const parseArgs = (tokens: Token[], line: number) => {
+  const positional: unknown[] = [];
+  const keywords: Record<string, unknown> = {};
+  let position = 0;
+
+  const readValue = (): unknown => {
+    const token = tokens[position];
+    if (token?.kind === 'value') {
+      position += 1;
+      return token.value;
+    }
+    if (token?.kind === 'symbol' && token.value === '[') {
+      position += 1;
+      const list: unknown[] = [];
+      while (tokens[position] && !(tokens[position].kind === 'symbol' && tokens[position].value === ']')) {
+        list.push(readValue());
+        if (tokens[position]?.kind === 'symbol' && tokens[position].value === ',') position += 1;
+      }
+      if (!tokens[position]) throw scriptError('missing "]"', line);
+      position += 1;
+      return list;
+    }
+    throw scriptError('expected a string, number or list', line);
+  };
+
+  while (position < tokens.length) {
+    const token = tokens[position];
+    const next = tokens[position + 1];
+    if (token.kind === 'name' && next?.kind === 'symbol' && next.value === '=') {
+      position += 2;
+      keywords[token.value] = readValue();
+    } else {
+      if (Object.keys(keywords).length > 0) {
+        throw scriptError('positional argument after keyword argument', line);
+      }
+      positional.push(readValue());
+    }
+    if (position < tokens.length) {
+      const separator = tokens[position];
+      if (separator.kind !== 'symbol' || separator.value !== ',') {
+        throw scriptError('expected ","', line);
+      }
+      position += 1;
+    }
+  }
+  return { positional, keywords };
+};
+
+const CALL_PATTERN = /^(?:await\s+)?(?:computer\.)?(?:interface\.)?(\w+)\s*\(([\s\S]*)\)\s*;?$/;
+
+/** Parses one call; returns null for blank lines and comments. */
+export const parseCall = (source: string, line = 1): SandboxRequest | null => {
+  const trimmed = source.trim();
+  if (!trimmed || trimmed.startsWith('#')) return null;
+
+  const match = trimmed.match(CALL_PATTERN);
+  if (!match) {
+    throw scriptError('expected a call like left_click(100, 200)', line);
+  }
+  const [, command, argSource] = match;
+  const signature = COMMAND_SIGNATURES[command];
+  if (!signature) {
+    throw scriptError(`unknown command "${command}". Try one of: ${Object.keys(COMMAND_SIGNATURES).join(', ')}`, line);
+  }
+
+  const { positional, keywords } = parseArgs(tokenizeArgs(argSource, line), line);
+  const params: Record<string, unknown> = {};
+  signature.forEach((name, index) => {
+    if (name.startsWith('...')) {
+      params[name.slice(3)] = positional.slice(index);
+    } else if (index < positional.length) {
+      params[name] = positional[index];
+    }
+  });
+  if (!signature.some((name) => name.startsWith('...')) && positional.length > signature.length) {
+    throw scriptError(`${command}() takes at most ${signature.length} argument(s)`, line);
+  }
+  Object.entries(keywords).forEach(([name, value]) => {
+    if (!signature.includes(name) && !signature.includes(`...${name}`)) {
+      throw scriptError(`${command}() got an unexpected argument "${name}"`, line);
+    }
+    params[name] = value;
+  });
+  return { command, params };
+};
+
+/** Parses a whole script, one call per line. Throws on the first bad line. */
+export const parseScript = (source: string): SandboxRequest[] =>
+  source
+    .split('\n')
+    .map((text, index) => parseCall(text, index + 1))
+    .filter((request): request is SandboxRequest => request !== null);
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'string' ? JSON.stringify(value) : Array.isArray(value) ? `[${value.map(formatValue).join(', ')}]` : String(value);
+
+/** The request as it would be written in Python, e.g. hotkey("command", "w"). */
+export const formatCall = ({ command, params }: SandboxRequest): string => {
+  const signature = COMMAND_SIGNATURES[command] ?? [];
+  // Positional until a parameter is skipped, then keywords, e.g. left_click(y=20)
+  let isPositional = true;
+  const args = signature.flatMap((name) => {
+    if (name.startsWith('...')) {
+      const rest = params[name.slice(3)];
+      return Array.isArray(rest) ? rest.map(formatValue) : [];
+    }
+    if (!(name in params)) {
+      isPositional = false;
+      return [];
+    }
+    return [isPositional ? formatValue(params[name]) : `${name}=${formatValue(params[name])}`];
+  });
+  return `${command}(${args.join(', ')})`;
+};
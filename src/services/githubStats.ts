@@ -0,0 +1,172 @@
+import snapshot from '../generated/github-snapshot.json';
+
+export interface RepoStats {
+  repo: string;
+  stars: number;
+  forks: number;
+  latestRelease: string | null;
+  lastCommit: string | null;
+}
+
+interface CacheEntry {
+  fetchedAt: number;
+  stats: RepoStats;
+}
+
+interface BackoffState {
+  until: number;
+  attempts: number;
+}
+
+const API_ROOT = 'https://api.github.com/repos';
+const CACHE_PREFIX = 'github-stats:';
+const BACKOFF_KEY = 'github-stats:backoff';
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const BASE_BACKOFF_MS = 60 * 1000;
+
+// Written by scripts/snapshot-github-stats.js at build time
+const snapshotStats = snapshot.repos as Record<string, RepoStats | undefined>;
+
+export const formatCount = (count: number | null): string => {
+  if (count === null) return '0';
+  if (count >= 1000) {
+    // Round to nearest 100 before formatting
+    const roundedCount = Math.round(count / 100) * 100;
+    return `${(roundedCount / 1000).toFixed(1).replace(/\.0$/, '')}k`;
+  }
+  return count.toString();
+};
+
+// localStorage can throw (private mode, quota), so every access is guarded
+const readStorage = <T,>(key: string): T | null => {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? (JSON.parse(value) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeStorage = (key: string, value: unknown | null) => {
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch {
+    // Caching is best effort
+  }
+};
+
+const isBackingOff = (): boolean => {
+  const backoff = readStorage<BackoffState>(BACKOFF_KEY);
+  return backoff !== null && Date.now() < backoff.until;
+};
+
+// Prefer GitHub's own reset time; otherwise back off exponentially
+const startBackoff = (response: Response) => {
+  const previous = readStorage<BackoffState>(BACKOFF_KEY);
+  const attempts = (previous?.attempts ?? 0) + 1;
+  const reset = Number(response.headers.get('x-ratelimit-reset'));
+  const retryAfter = Number(response.headers.get('retry-after'));
+  let until = Date.now() + BASE_BACKOFF_MS * 2 ** (attempts - 1);
+  if (reset > 0) {
+    until = reset * 1000;
+  } else if (retryAfter > 0) {
+    until = Date.now() + retryAfter * 1000;
+  }
+  writeStorage(BACKOFF_KEY, { until, attempts });
+};
+
+const isRateLimited = (response: Response): boolean =>
+  (response.status === 403 || response.status === 429) &&
+  (response.headers.get('x-ratelimit-remaining') === '0' || response.headers.has('retry-after'));
+
+const fetchGithub = async (path: string): Promise<Response> => {
+  const response = await fetch(`${API_ROOT}/${path}`, {
+    headers: {
+      'Accept': 'application/vnd.github.v3+json',
+      ...(process.env.REACT_APP_GITHUB_TOKEN && {
+        'Authorization': `token ${process.env.REACT_APP_GITHUB_TOKEN}`
+      })
+    }
+  });
+  if (isRateLimited(response)) {
+    startBackoff(response);
+    throw new Error(`GitHub API rate limit exceeded for ${path}`);
+  }
+  return response;
+};
+
+const fetchRepoStats = async (repo: string): Promise<RepoStats> => {
+  const [repoResponse, releaseResponse] = await Promise.all([
+    fetchGithub(repo),
+    fetchGithub(`${repo}/releases/latest`),
+  ]);
+  if (!repoResponse.ok) {
+    throw new Error(`GitHub API error for ${repo}: ${repoResponse.status} ${repoResponse.statusText}`);
+  }
+  const data = await repoResponse.json();
+  if (!data || typeof data.stargazers_count !== 'number') {
+    throw new Error(`Invalid GitHub API response for ${repo}`);
+  }
+  // Repos without releases answer 404 here
+  const release = releaseResponse.ok ? await releaseResponse.json() : null;
+
+  return {
+    repo,
+    stars: data.stargazers_count,
+    forks: data.forks_count,
+    latestRelease: release?.tag_name ?? null,
+    lastCommit: data.pushed_at ?? null,
+  };
+};
+
+export const getSnapshotStats = (repo: string): RepoStats | null => snapshotStats[repo] ?? null;
+
+/**
+ * Best stats available without touching the network: a cached response
+ * (even if expired) or the build-time snapshot.
+ */
+export const peekRepoStats = (repo: string): RepoStats | null =>
+  readStorage<CacheEntry>(CACHE_PREFIX + repo)?.stats ?? getSnapshotStats(repo);
+
+const pending = new Map<string, Promise<RepoStats | null>>();
+
+const loadRepoStats = async (repo: string): Promise<RepoStats | null> => {
+  const cached = readStorage<CacheEntry>(CACHE_PREFIX + repo);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.stats;
+  }
+
+  const isOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+  if (!isOffline && !isBackingOff()) {
+    try {
+      const stats = await fetchRepoStats(repo);
+      writeStorage(CACHE_PREFIX + repo, { fetchedAt: Date.now(), stats });
+      writeStorage(BACKOFF_KEY, null);
+      return stats;
+    } catch (error: unknown) {
+      // Fall through to the cache or snapshot; the error is only worth a note in development
+      if (process.env.NODE_ENV === 'development') {
+        console.info(`GitHub stats for ${repo} unavailable:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  return peekRepoStats(repo);
+};
+
+/**
+ * Stats for a repo, served from the localStorage cache while fresh. Concurrent
+ * callers share one request per repo.
+ */
+export const getRepoStats = (repo: string): Promise<RepoStats | null> => {
+  let request = pending.get(repo);
+  if (!request) {
+    request = loadRepoStats(repo).finally(() => pending.delete(repo));
+    pending.set(repo, request);
+  }
+  return request;
+};
@@ -0,0 +1,395 @@
+// An in-browser stand-in for a Computer sandbox. It accepts the same
+// command/params requests the Computer server does and simulates a small
+// desktop (menu bar, dock, Notes and Terminal windows) so the playground can
+// run without a VM. Geometry lives here so hit-testing and the canvas renderer
+// (services/sandboxRenderer.ts) agree.
+
+export interface SandboxRequest {
+  command: string;
+  params: Record<string, unknown>;
+}
+
+export type SandboxResponse =
+  | { success: true; result?: unknown }
+  | { success: false; error: string };
+
+// Anything that executes Computer commands; a real sandbox would send them over a WebSocket
+export interface SandboxTransport {
+  send: (request: SandboxRequest) => Promise<SandboxResponse>;
+}
+
+export type SandboxApp = 'notes' | 'terminal' | 'about';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SandboxWindow extends Rect {
+  id: string;
+  app: SandboxApp;
+  title: string;
+  // Notes: the document. Terminal: finished lines. About: fixed text.
+  lines: string[];
+  // Terminal prompt input not yet submitted
+  input: string;
+}
+
+export interface DesktopState {
+  width: number;
+  height: number;
+  cursor: { x: number; y: number };
+  // Back to front; the last window has focus
+  windows: SandboxWindow[];
+  clipboard: string;
+}
+
+export const SCREEN_WIDTH = 1024;
+export const SCREEN_HEIGHT = 640;
+export const MENU_BAR_HEIGHT = 24;
+export const TITLE_BAR_HEIGHT = 28;
+export const DOCK_ICON_SIZE = 48;
+const DOCK_GAP = 12;
+const DOCK_PADDING = 10;
+
+export const TERMINAL_PROMPT = 'lume@sandbox ~ % ';
+
+export const appNames: Record<SandboxApp, string> = {
+  notes: 'Notes',
+  terminal: 'Terminal',
+  about: 'About This Mac',
+};
+
+export const DOCK_APPS: SandboxApp[] = ['notes', 'terminal', 'about'];
+
+// Where each app's window opens
+const windowFrames: Record<SandboxApp, Rect> = {
+  notes: { x: 120, y: 70, width: 460, height: 340 },
+  terminal: { x: 420, y: 150, width: 500, height: 300 },
+  about: { x: 330, y: 110, width: 360, height: 220 },
+};
+
+const aboutLines = ['macOS Sequoia 15.2', 'Chip: Apple Virtual (Lume)', 'Memory: 8 GB', 'Display: 1024 × 640'];
+
+export const getDockFrame = (): Rect => {
+  const width = DOCK_APPS.length * DOCK_ICON_SIZE + (DOCK_APPS.length - 1) * DOCK_GAP + DOCK_PADDING * 2;
+  const height = DOCK_ICON_SIZE + DOCK_PADDING * 2;
+  return { x: (SCREEN_WIDTH - width) / 2, y: SCREEN_HEIGHT - height - 8, width, height };
+};
+
+export const getDockIconRect = (index: number): Rect => {
+  const dock = getDockFrame();
+  return {
+    x: dock.x + DOCK_PADDING + index * (DOCK_ICON_SIZE + DOCK_GAP),
+    y: dock.y + DOCK_PADDING,
+    width: DOCK_ICON_SIZE,
+    height: DOCK_ICON_SIZE,
+  };
+};
+
+// The red "traffic light" in a window's title bar
+export const getCloseButtonCenter = (window: SandboxWindow) => ({
+  x: window.x + 16,
+  y: window.y + TITLE_BAR_HEIGHT / 2,
+});
+
+const contains = (rect: Rect, x: number, y: number) =>
+  x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+
+export const createInitialState = (): DesktopState => ({
+  width: SCREEN_WIDTH,
+  height: SCREEN_HEIGHT,
+  cursor: { x: SCREEN_WIDTH / 2, y: SCREEN_HEIGHT / 2 },
+  windows: [],
+  clipboard: '',
+});
+
+export const getFocusedWindow = (state: DesktopState): SandboxWindow | undefined =>
+  state.windows[state.windows.length - 1];
+
+const runTerminalLine = (line: string): string[] => {
+  const [program, ...args] = line.trim().split(/\s+/);
+  switch (program) {
+    case undefined:
+    case '':
+      return [];
+    case 'echo':
+      return [args.join(' ')];
+    case 'pwd':
+      return ['/Users/lume'];
+    case 'whoami':
+      return ['lume'];
+    case 'ls':
+      return ['Desktop    Documents    Downloads'];
+    case 'sw_vers':
+      return ['ProductName:    macOS', 'ProductVersion: 15.2'];
+    case 'help':
+      return ['Try: echo, ls, pwd, whoami, sw_vers, clear'];
+    default:
+      return [`zsh: command not found: ${program}`];
+  }
+};
+
+// Pure state transitions; each returns the next state or throws a user-facing error
+const focusOrOpen = (state: DesktopState, app: SandboxApp): DesktopState => {
+  const existing = state.windows.find((window) => window.app === app);
+  if (existing) {
+    return { ...state, windows: [...state.windows.filter((window) => window !== existing), existing] };
+  }
+  const opened: SandboxWindow = {
+    // One window per app, so ids stay stable across replays
+    id: app,
+    app,
+    title: appNames[app],
+    ...windowFrames[app],
+    lines: app === 'about' ? aboutLines : app === 'notes' ? [''] : [],
+    input: '',
+  };
+  return { ...state, windows: [...state.windows, opened] };
+};
+
+const closeWindow = (state: DesktopState, target: SandboxWindow): DesktopState => ({
+  ...state,
+  windows: state.windows.filter((window) => window !== target),
+});
+
+const updateFocused = (state: DesktopState, update: (window: SandboxWindow) => SandboxWindow): DesktopState => {
+  const focused = getFocusedWindow(state);
+  if (!focused) {
+    throw new Error('No window has focus. Click a dock icon to open an app first.');
+  }
+  return { ...state, windows: [...state.windows.slice(0, -1), update(focused)] };
+};
+
+const click = (state: DesktopState, x: number, y: number): DesktopState => {
+  const moved = { ...state, cursor: { x, y } };
+
+  const dockIndex = DOCK_APPS.findIndex((_, index) => contains(getDockIconRect(index), x, y));
+  if (dockIndex !== -1) {
+    return focusOrOpen(moved, DOCK_APPS[dockIndex]);
+  }
+
+  // Topmost window under the cursor
+  const target = [...moved.windows].reverse().find((window) => contains(window, x, y));
+  if (!target) return moved;
+
+  const close = getCloseButtonCenter(target);
+  if (Math.hypot(x - close.x, y - close.y) <= 8) {
+    return closeWindow(moved, target);
+  }
+  return { ...moved, windows: [...moved.windows.filter((window) => window !== target), target] };
+};
+
+const submitTerminal = (window: SandboxWindow): SandboxWindow => {
+  if (window.input.trim() === 'clear') {
+    return { ...window, lines: [], input: '' };
+  }
+  return {
+    ...window,
+    lines: [...window.lines, `${TERMINAL_PROMPT}${window.input}`, ...runTerminalLine(window.input)],
+    input: '',
+  };
+};
+
+const insertText = (window: SandboxWindow, text: string): SandboxWindow => {
+  if (window.app === 'terminal') {
+    const [first, ...rest] = text.split('\n');
+    // A newline in typed text submits the line, like pressing Return
+    return rest.reduce(
+      (current, part) => ({ ...submitTerminal(current), input: part }),
+      { ...window, input: window.input + first }
+    );
+  }
+  if (window.app === 'notes') {
+    const lines = [...window.lines];
+    const [first, ...rest] = text.split('\n');
+    lines[lines.length - 1] += first;
+    return { ...window, lines: [...lines, ...rest] };
+  }
+  return window;
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  return: 'enter',
+  cmd: 'command',
+  ctrl: 'control',
+  option: 'alt',
+  esc: 'escape',
+  delete: 'backspace',
+};
+
+const normalizeKey = (key: string) => KEY_ALIASES[key.toLowerCase()] ?? key.toLowerCase();
+
+const pressKey = (state: DesktopState, rawKey: string): DesktopState => {
+  const key = normalizeKey(rawKey);
+  switch (key) {
+    case 'enter':
+      return updateFocused(state, (window) =>
+        window.app === 'terminal' ? submitTerminal(window) : insertText(window, '\n')
+      );
+    case 'backspace':
+      return updateFocused(state, (window) => {
+        if (window.app === 'terminal') return { ...window, input: window.input.slice(0, -1) };
+        if (window.app !== 'notes') return window;
+        const lines = [...window.lines];
+        const last = lines[lines.length - 1];
+        if (last === '' && lines.length > 1) {
+          lines.pop();
+        } else {
+          lines[lines.length - 1] = last.slice(0, -1);
+        }
+        return { ...window, lines };
+      });
+    case 'space':
+      return updateFocused(state, (window) => insertText(window, ' '));
+    case 'tab':
+    case 'escape':
+    case 'up':
+    case 'down':
+    case 'left':
+    case 'right':
+      return state;
+    default:
+      if (key.length === 1) {
+        return updateFocused(state, (window) => insertText(window, key));
+      }
+      throw new Error(`Unsupported key "${rawKey}"`);
+  }
+};
+
+const hotkey = (state: DesktopState, rawKeys: string[]): DesktopState => {
+  const keys = rawKeys.map(normalizeKey);
+  const modifier = keys.find((key) => key === 'command' || key === 'control');
+  const letter = keys.find((key) => key.length === 1);
+  if (!modifier || !letter) {
+    throw new Error(`Unsupported hotkey "${rawKeys.join('+')}"`);
+  }
+  const focused = getFocusedWindow(state);
+
+  switch (letter) {
+    case 'w':
+      return focused ? closeWindow(state, focused) : state;
+    case 'q':
+      return focused ? { ...state, windows: state.windows.filter((window) => window.app !== focused.app) } : state;
+    case 'c':
+      if (!focused) return state;
+      return { ...state, clipboard: focused.app === 'terminal' ? focused.input : focused.lines.join('\n') };
+    case 'v':
+      return updateFocused(state, (window) => insertText(window, state.clipboard));
+    case 'k':
+      return updateFocused(state, (window) => (window.app === 'terminal' ? { ...window, lines: [] } : window));
+    case 'n':
+      return focusOrOpen(state, 'notes');
+    default:
+      throw new Error(`Unsupported hotkey "${rawKeys.join('+')}"`);
+  }
+};
+
+const requireNumber = (params: Record<string, unknown>, name: string, fallback?: number): number => {
+  const value = params[name] ?? fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`"${name}" must be a number`);
+  }
+  return value;
+};
+
+const requireString = (params: Record<string, unknown>, name: string): string => {
+  const value = params[name];
+  if (typeof value !== 'string') {
+    throw new Error(`"${name}" must be a string`);
+  }
+  return value;
+};
+
+const clampPoint = (x: number, y: number) => ({
+  x: Math.min(Math.max(0, Math.round(x)), SCREEN_WIDTH - 1),
+  y: Math.min(Math.max(0, Math.round(y)), SCREEN_HEIGHT - 1),
+});
+
+export type SandboxListener = (state: DesktopState) => void;
+
+export interface MockSandbox extends SandboxTransport {
+  getState: () => DesktopState;
+  reset: () => void;
+  subscribe: (listener: SandboxListener) => () => void;
+}
+
+/**
+ * Creates a simulated sandbox. `captureScreen` renders the current state for
+ * the `screenshot` command (the playground passes the canvas renderer).
+ */
+export const createMockSandbox = (captureScreen?: (state: DesktopState) => string): MockSandbox => {
+  let state = createInitialState();
+  const listeners = new Set<SandboxListener>();
+
+  const setState = (next: DesktopState) => {
+    state = next;
+    listeners.forEach((listener) => listener(state));
+  };
+
+  // x and y default to the current cursor position, as in the Computer API
+  const point = (params: Record<string, unknown>) =>
+    clampPoint(requireNumber(params, 'x', state.cursor.x), requireNumber(params, 'y', state.cursor.y));
+
+  const execute = ({ command, params }: SandboxRequest): unknown => {
+    switch (command) {
+      case 'left_click':
+      case 'double_click': {
+        const { x, y } = point(params);
+        setState(click(state, x, y));
+        return undefined;
+      }
+      case 'right_click':
+      case 'move_cursor':
+        setState({ ...state, cursor: point(params) });
+        return undefined;
+      case 'type_text':
+        setState(updateFocused(state, (window) => insertText(window, requireString(params, 'text'))));
+        return undefined;
+      case 'press_key':
+        setState(pressKey(state, requireString(params, 'key')));
+        return undefined;
+      case 'hotkey': {
+        const keys = params.keys;
+        if (!Array.isArray(keys) || keys.length === 0 || keys.some((key) => typeof key !== 'string')) {
+          throw new Error('"keys" must be a list of key names');
+        }
+        setState(hotkey(state, keys));
+        return undefined;
+      }
+      case 'get_screen_size':
+        return { width: SCREEN_WIDTH, height: SCREEN_HEIGHT };
+      case 'get_cursor_position':
+        return { ...state.cursor };
+      case 'copy_to_clipboard':
+        return state.clipboard;
+      case 'screenshot':
+        if (!captureScreen) {
+          throw new Error('Screenshots are not available in this sandbox');
+        }
+        return { width: SCREEN_WIDTH, height: SCREEN_HEIGHT, image: captureScreen(state) };
+      default:
+        throw new Error(`Unknown command "${command}"`);
+    }
+  };
+
+  return {
+    send: async (request) => {
+      try {
+        return { success: true, result: execute(request) };
+      } catch (error: unknown) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    },
+    getState: () => state,
+    reset: () => setState(createInitialState()),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
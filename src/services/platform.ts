@@ -0,0 +1,88 @@
+export type OperatingSystem = 'macos' | 'ios' | 'windows' | 'linux' | 'android' | 'chromeos' | 'unknown';
+
+export interface PlatformInfo {
+  os: OperatingSystem;
+  // null when the browser gives no reliable signal
+  isAppleSilicon: boolean | null;
+  // e.g. 'M2', from the WebGL renderer when the browser exposes it
+  chip: string | null;
+  // macOS version from client hints (Chromium only)
+  osVersion: string | null;
+}
+
+// Minimal typing for User-Agent Client Hints, which TypeScript's DOM lib lacks
+interface UserAgentData {
+  platform: string;
+  getHighEntropyValues: (hints: string[]) => Promise<{ architecture?: string; platformVersion?: string }>;
+}
+
+export const osLabels: Record<OperatingSystem, string> = {
+  macos: 'macOS',
+  ios: 'iOS / iPadOS',
+  windows: 'Windows',
+  linux: 'Linux',
+  android: 'Android',
+  chromeos: 'ChromeOS',
+  unknown: 'an unknown platform',
+};
+
+const detectOs = (userAgent: string): OperatingSystem => {
+  if (/iPhone|iPad|iPod/.test(userAgent)) return 'ios';
+  if (/Macintosh|Mac OS X/.test(userAgent)) {
+    // iPadOS requests desktop sites with a Mac user agent
+    return navigator.maxTouchPoints > 1 ? 'ios' : 'macos';
+  }
+  if (/Android/.test(userAgent)) return 'android';
+  if (/CrOS/.test(userAgent)) return 'chromeos';
+  if (/Windows/.test(userAgent)) return 'windows';
+  if (/Linux/.test(userAgent)) return 'linux';
+  return 'unknown';
+};
+
+// Chromium and Firefox expose the GPU name, which is the chip on Apple Silicon
+const detectChipFromWebGL = (): string | null => {
+  try {
+    const gl = document.createElement('canvas').getContext('webgl');
+    const extension = gl?.getExtension('WEBGL_debug_renderer_info');
+    const renderer = gl && extension ? String(gl.getParameter(extension.UNMASKED_RENDERER_WEBGL)) : '';
+    return renderer.match(/Apple (M\d+)/)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Best-effort guess of the visitor's platform. Every Mac browser reports an
+ * Intel user agent, so Apple Silicon is inferred from client hints or the
+ * WebGL renderer and may stay unknown (null).
+ */
+export const detectPlatform = async (): Promise<PlatformInfo> => {
+  const os = detectOs(navigator.userAgent);
+  const info: PlatformInfo = { os, isAppleSilicon: null, chip: null, osVersion: null };
+  if (os !== 'macos') {
+    return info;
+  }
+
+  info.chip = detectChipFromWebGL();
+  if (info.chip) {
+    info.isAppleSilicon = true;
+  }
+
+  const userAgentData = (navigator as Navigator & { userAgentData?: UserAgentData }).userAgentData;
+  if (userAgentData) {
+    try {
+      const hints = await userAgentData.getHighEntropyValues(['architecture', 'platformVersion']);
+      if (hints.architecture) {
+        info.isAppleSilicon = hints.architecture === 'arm';
+      }
+      info.osVersion = hints.platformVersion || null;
+    } catch {
+      // Hints are optional
+    }
+  }
+
+  return info;
+};
+
+export const isSupportedPlatform = (info: PlatformInfo): boolean | null =>
+  info.os !== 'macos' ? false : info.isAppleSilicon;
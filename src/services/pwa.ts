@@ -0,0 +1,106 @@
+// Service worker registration (see src/service-worker.ts), the "update available"
+// signal and the deferred browser install prompt
+
+// Chromium-only; not in the DOM typings
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+export interface PwaState {
+  // A new deploy is installed and waiting to take over
+  isUpdateReady: boolean;
+  canInstall: boolean;
+}
+
+type PwaListener = (state: PwaState) => void;
+
+let waitingWorker: ServiceWorker | null = null;
+let installPrompt: BeforeInstallPromptEvent | null = null;
+const listeners = new Set<PwaListener>();
+
+export const getPwaState = (): PwaState => ({
+  isUpdateReady: waitingWorker !== null,
+  canInstall: installPrompt !== null,
+});
+
+const notify = () => {
+  const state = getPwaState();
+  listeners.forEach((listener) => listener(state));
+};
+
+export const subscribeToPwa = (listener: PwaListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const setWaitingWorker = (worker: ServiceWorker) => {
+  waitingWorker = worker;
+  notify();
+};
+
+const watchForUpdates = (registration: ServiceWorkerRegistration) => {
+  // The first install has nothing to replace, so only report workers that wait behind a controller
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    setWaitingWorker(registration.waiting);
+  }
+  registration.addEventListener('updatefound', () => {
+    const installing = registration.installing;
+    installing?.addEventListener('statechange', () => {
+      if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+        setWaitingWorker(installing);
+      }
+    });
+  });
+};
+
+/** Registers the worker in production builds; development serves no service-worker.js. */
+export const registerServiceWorker = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .then((registration) => {
+        watchForUpdates(registration);
+        // Long-lived tabs (e.g. a booth demo) still pick up new deploys
+        setInterval(() => registration.update().catch(() => undefined), 60 * 60 * 1000);
+      })
+      .catch((error) => {
+        console.error('Service worker registration failed:', error);
+      });
+  });
+};
+
+/** Activates the waiting worker and reloads once it controls the page. */
+export const applyUpdate = () => {
+  if (!waitingWorker) return;
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+};
+
+export const promptInstall = async (): Promise<boolean> => {
+  if (!installPrompt) return false;
+  const event = installPrompt;
+  // A deferred prompt can only be shown once
+  installPrompt = null;
+  notify();
+  await event.prompt();
+  const { outcome } = await event.userChoice;
+  return outcome === 'accepted';
+};
+
+if (typeof window !== 'undefined') {
+  // Suppress the browser's mini-infobar and keep the event for our own prompt
+  window.addEventListener('beforeinstallprompt', (event) => {
+    event.preventDefault();
+    installPrompt = event as BeforeInstallPromptEvent;
+    notify();
+  });
+  window.addEventListener('appinstalled', () => {
+    installPrompt = null;
+    notify();
+  });
+}
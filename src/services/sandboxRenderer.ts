@@ -0,0 +1,224 @@
+// Draws a mock sandbox desktop (services/mockSandbox.ts) onto a canvas. The
+// colours are the simulated macOS desktop's, not the site theme.
+import {
+  DOCK_APPS,
+  DesktopState,
+  MENU_BAR_HEIGHT,
+  SandboxApp,
+  SandboxWindow,
+  TERMINAL_PROMPT,
+  TITLE_BAR_HEIGHT,
+  appNames,
+  getCloseButtonCenter,
+  getDockFrame,
+  getDockIconRect,
+  getFocusedWindow,
+} from './mockSandbox';
+
+const FONT = '-apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif';
+const MONO_FONT = 'ui-monospace, Menlo, Consolas, monospace';
+const LINE_HEIGHT = 18;
+const CONTENT_PADDING = 12;
+
+const dockColors: Record<SandboxApp, string> = {
+  notes: '#facc15',
+  terminal: '#262626',
+  about: '#3b82f6',
+};
+
+const dockGlyphs: Record<SandboxApp, string> = {
+  notes: '✎',
+  terminal: '>_',
+  about: 'i',
+};
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + width, y, x + width, y + height, radius);
+  ctx.arcTo(x + width, y + height, x, y + height, radius);
+  ctx.arcTo(x, y + height, x, y, radius);
+  ctx.arcTo(x, y, x + width, y, radius);
+  ctx.closePath();
+};
+
+// Breaks a line into pieces that fit `maxWidth`, splitting long words by character
+const wrapLine = (ctx: CanvasRenderingContext2D, line: string, maxWidth: number): string[] => {
+  if (line === '') return [''];
+  const wrapped: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (ctx.measureText(current + char).width > maxWidth && current) {
+      const breakAt = current.lastIndexOf(' ');
+      if (breakAt > 0 && char !== ' ') {
+        wrapped.push(current.slice(0, breakAt));
+        current = current.slice(breakAt + 1) + char;
+      } else {
+        wrapped.push(current);
+        current = char === ' ' ? '' : char;
+      }
+    } else {
+      current += char;
+    }
+  }
+  return [...wrapped, current];
+};
+
+const drawWallpaper = (ctx: CanvasRenderingContext2D, state: DesktopState) => {
+  const gradient = ctx.createLinearGradient(0, 0, state.width, state.height);
+  gradient.addColorStop(0, '#1e3a8a');
+  gradient.addColorStop(0.55, '#7c3aed');
+  gradient.addColorStop(1, '#f97316');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, state.width, state.height);
+};
+
+const drawMenuBar = (ctx: CanvasRenderingContext2D, state: DesktopState) => {
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+  ctx.fillRect(0, 0, state.width, MENU_BAR_HEIGHT);
+  ctx.fillStyle = '#171717';
+  ctx.textBaseline = 'middle';
+  ctx.font = `bold 13px ${FONT}`;
+  const focused = getFocusedWindow(state);
+  ctx.fillText(focused ? appNames[focused.app] : 'Finder', 16, MENU_BAR_HEIGHT / 2);
+  ctx.font = `13px ${FONT}`;
+  ctx.textAlign = 'right';
+  ctx.fillText('lume@sandbox', state.width - 16, MENU_BAR_HEIGHT / 2);
+  ctx.textAlign = 'left';
+};
+
+// Last visible lines of the window body, already wrapped
+const visibleLines = (ctx: CanvasRenderingContext2D, lines: string[], window: SandboxWindow) => {
+  const maxWidth = window.width - CONTENT_PADDING * 2;
+  const maxLines = Math.floor((window.height - TITLE_BAR_HEIGHT - CONTENT_PADDING * 2) / LINE_HEIGHT);
+  return lines.flatMap((line) => wrapLine(ctx, line, maxWidth)).slice(-maxLines);
+};
+
+const drawWindow = (ctx: CanvasRenderingContext2D, window: SandboxWindow, isFocused: boolean) => {
+  const isTerminal = window.app === 'terminal';
+
+  ctx.save();
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+  ctx.shadowBlur = isFocused ? 24 : 10;
+  ctx.shadowOffsetY = 6;
+  roundedRect(ctx, window.x, window.y, window.width, window.height, 10);
+  ctx.fillStyle = isTerminal ? '#171717' : '#ffffff';
+  ctx.fill();
+  ctx.restore();
+
+  // Title bar
+  ctx.save();
+  roundedRect(ctx, window.x, window.y, window.width, window.height, 10);
+  ctx.clip();
+  ctx.fillStyle = isTerminal ? '#262626' : '#f5f5f5';
+  ctx.fillRect(window.x, window.y, window.width, TITLE_BAR_HEIGHT);
+  ctx.restore();
+
+  const close = getCloseButtonCenter(window);
+  ['#ef4444', '#eab308', '#22c55e'].forEach((color, index) => {
+    ctx.beginPath();
+    ctx.arc(close.x + index * 20, close.y, 6, 0, Math.PI * 2);
+    ctx.fillStyle = isFocused ? color : '#a3a3a3';
+    ctx.fill();
+  });
+
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'center';
+  ctx.font = `13px ${FONT}`;
+  ctx.fillStyle = isTerminal ? '#d4d4d4' : '#404040';
+  ctx.fillText(window.title, window.x + window.width / 2, window.y + TITLE_BAR_HEIGHT / 2);
+  ctx.textAlign = 'left';
+
+  // Body
+  ctx.textBaseline = 'top';
+  const left = window.x + CONTENT_PADDING;
+  const top = window.y + TITLE_BAR_HEIGHT + CONTENT_PADDING;
+  if (isTerminal) {
+    ctx.font = `13px ${MONO_FONT}`;
+    ctx.fillStyle = '#e5e5e5';
+    // The prompt line always stays on screen, with a block cursor when focused
+    const lines = visibleLines(ctx, [...window.lines, `${TERMINAL_PROMPT}${window.input}`], window);
+    lines.forEach((line, index) => ctx.fillText(line, left, top + index * LINE_HEIGHT));
+    if (isFocused) {
+      const last = lines[lines.length - 1];
+      ctx.fillRect(left + ctx.measureText(last).width + 1, top + (lines.length - 1) * LINE_HEIGHT, 7, 14);
+    }
+  } else {
+    ctx.font = `14px ${FONT}`;
+    ctx.fillStyle = '#171717';
+    const lines = visibleLines(ctx, window.lines, window);
+    lines.forEach((line, index) => ctx.fillText(line, left, top + index * LINE_HEIGHT));
+    if (isFocused && window.app === 'notes') {
+      const last = lines[lines.length - 1];
+      ctx.fillRect(left + ctx.measureText(last).width + 1, top + (lines.length - 1) * LINE_HEIGHT, 1.5, 16);
+    }
+  }
+};
+
+const drawDock = (ctx: CanvasRenderingContext2D, state: DesktopState) => {
+  const dock = getDockFrame();
+  roundedRect(ctx, dock.x, dock.y, dock.width, dock.height, 16);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+  ctx.fill();
+
+  DOCK_APPS.forEach((app, index) => {
+    const icon = getDockIconRect(index);
+    roundedRect(ctx, icon.x, icon.y, icon.width, icon.height, 11);
+    ctx.fillStyle = dockColors[app];
+    ctx.fill();
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold 20px ${app === 'terminal' ? MONO_FONT : FONT}`;
+    ctx.fillStyle = app === 'notes' ? '#171717' : '#ffffff';
+    ctx.fillText(dockGlyphs[app], icon.x + icon.width / 2, icon.y + icon.height / 2);
+
+    // Running indicator
+    if (state.windows.some((window) => window.app === app)) {
+      ctx.beginPath();
+      ctx.arc(icon.x + icon.width / 2, icon.y + icon.height + 5, 2, 0, Math.PI * 2);
+      ctx.fillStyle = '#ffffff';
+      ctx.fill();
+    }
+  });
+  ctx.textAlign = 'left';
+};
+
+const drawCursor = (ctx: CanvasRenderingContext2D, { x, y }: DesktopState['cursor']) => {
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.lineTo(x, y + 17);
+  ctx.lineTo(x + 4.5, y + 13);
+  ctx.lineTo(x + 8, y + 20);
+  ctx.lineTo(x + 10.5, y + 19);
+  ctx.lineTo(x + 7, y + 12);
+  ctx.lineTo(x + 12.5, y + 12);
+  ctx.closePath();
+  ctx.fillStyle = '#000000';
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 1.5;
+  ctx.fill();
+  ctx.stroke();
+};
+
+/** Paints the whole desktop in sandbox pixels; scale the context first for HiDPI canvases. */
+export const drawDesktop = (ctx: CanvasRenderingContext2D, state: DesktopState) => {
+  drawWallpaper(ctx, state);
+  drawMenuBar(ctx, state);
+  state.windows.forEach((window, index) => drawWindow(ctx, window, index === state.windows.length - 1));
+  drawDock(ctx, state);
+  drawCursor(ctx, state.cursor);
+};
+
+/** Renders the state to an offscreen canvas and returns a PNG data URL, for the `screenshot` command. */
+export const captureDesktop = (state: DesktopState): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = state.width;
+  canvas.height = state.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D is not supported in this browser');
+  }
+  drawDesktop(ctx, state);
+  return canvas.toDataURL('image/png');
+};
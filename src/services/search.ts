@@ -0,0 +1,115 @@
+export type SearchDocumentType = 'page' | 'product' | 'doc' | 'post' | 'image';
+
+// One entry of public/search-index.json, built by scripts/build-search-index.js
+export interface SearchDocument {
+  id: string;
+  type: SearchDocumentType;
+  title: string;
+  // Parent title for sections, e.g. the doc a heading belongs to
+  context?: string;
+  // Plain text used for matching and the result preview
+  text: string;
+  // Unlocalized site path
+  url: string;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  // Excerpt of `text` around the first match
+  snippet: string;
+}
+
+const INDEX_URL = `${process.env.PUBLIC_URL}/search-index.json`;
+const SNIPPET_LENGTH = 160;
+
+let indexPromise: Promise<SearchDocument[]> | null = null;
+
+/** Fetches the index once; a failed fetch is retried on the next call. */
+export const loadSearchIndex = (): Promise<SearchDocument[]> => {
+  if (!indexPromise) {
+    indexPromise = fetch(INDEX_URL)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Search index request failed: ${response.status} ${response.statusText}`);
+        }
+        return response.json();
+      })
+      .catch((error) => {
+        indexPromise = null;
+        throw error;
+      });
+  }
+  return indexPromise;
+};
+
+export const tokenize = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Letters of `term` appearing in order in `value`, tightly packed scores higher; 0 if absent
+const subsequenceScore = (term: string, value: string): number => {
+  let position = -1;
+  let gaps = 0;
+  for (const char of term) {
+    const next = value.indexOf(char, position + 1);
+    if (next === -1) return 0;
+    if (position !== -1) gaps += next - position - 1;
+    position = next;
+  }
+  return 1 / (1 + gaps);
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Best score for one query term against a document; 0 means no match
+const scoreTerm = (term: string, title: string, context: string, text: string): number => {
+  const titleWords = title.split(/[^\w.-]+/);
+  if (titleWords.includes(term)) return 10;
+  if (titleWords.some((word) => word.startsWith(term))) return 8;
+  if (title.includes(term)) return 6;
+  if (context.includes(term)) return 4;
+  if (new RegExp(`\\b${escapeRegExp(term)}`).test(text)) return 3;
+  if (text.includes(term)) return 2;
+  // Typos and abbreviations ("vrtlz") only count against the title
+  return term.length >= 3 ? 4 * subsequenceScore(term, title) : 0;
+};
+
+const makeSnippet = (text: string, terms: string[]): string => {
+  const lower = text.toLowerCase();
+  const hit = terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0).sort((a, b) => a - b)[0];
+  if (hit === undefined || text.length <= SNIPPET_LENGTH) {
+    return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH).trimEnd()}…` : text;
+  }
+  const start = Math.max(0, hit - SNIPPET_LENGTH / 4);
+  const excerpt = text.slice(start, start + SNIPPET_LENGTH).trim();
+  return `${start > 0 ? '…' : ''}${excerpt}${start + SNIPPET_LENGTH < text.length ? '…' : ''}`;
+};
+
+/** Fuzzy search: every term must match the title or text; title matches rank first. */
+export const searchDocuments = (documents: SearchDocument[], query: string, limit = 8): SearchResult[] => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const document of documents) {
+    const title = document.title.toLowerCase();
+    const context = (document.context ?? '').toLowerCase();
+    const text = document.text.toLowerCase();
+    let score = 0;
+    for (const term of terms) {
+      const termScore = scoreTerm(term, title, context, text);
+      if (termScore === 0) {
+        score = 0;
+        break;
+      }
+      score += termScore;
+    }
+    if (score > 0) {
+      results.push({ document, score, snippet: makeSnippet(document.text, terms) });
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.document.title.length - b.document.title.length)
+    .slice(0, limit);
+};
@@ -0,0 +1,307 @@
+// Parses agent run logs (trajectories) into one shape for the viewer. Logs are
+// JSON ({ task, steps: [...] } or a bare array of steps) or JSONL (one step per
+// line, plus optional { "type": "run" } metadata lines). Field names from the
+// Computer interface (left_click, type_text, hotkey) and from common
+// computer-use model outputs (click, keypress, coordinate: [x, y]) are accepted.
+// docs/trajectory-format.md documents the format.
+
+import { MessageKey } from '../i18n/locales';
+
+export type TrajectoryActionType =
+  | 'click'
+  | 'double_click'
+  | 'right_click'
+  | 'move'
+  | 'drag'
+  | 'scroll'
+  | 'type'
+  | 'keypress'
+  | 'wait'
+  | 'screenshot'
+  | 'done'
+  | 'other';
+
+export interface TrajectoryAction {
+  type: TrajectoryActionType;
+  // The name used in the log, shown for 'other' actions
+  name: string;
+  x?: number;
+  y?: number;
+  // Drag end point
+  toX?: number;
+  toY?: number;
+  scrollX?: number;
+  scrollY?: number;
+  text?: string;
+  keys?: string[];
+}
+
+export interface TrajectoryStep {
+  // 1-based, in log order
+  index: number;
+  timestamp?: string;
+  // Resolved image URL (http(s), data: or blob:)
+  screenshot?: string;
+  reasoning?: string;
+  actions: TrajectoryAction[];
+  error?: string;
+}
+
+export interface Trajectory {
+  task?: string;
+  model?: string;
+  // Screen size the coordinates refer to; otherwise the screenshot's own size
+  screen?: { width: number; height: number };
+  steps: TrajectoryStep[];
+}
+
+export interface ParseOptions {
+  // Base for relative screenshot paths, e.g. the log's own URL
+  baseUrl?: string;
+  // Uploaded images by file name, so logs can reference screenshots saved next to them
+  files?: Record<string, string>;
+}
+
+type RawObject = Record<string, unknown>;
+
+const ACTION_TYPES: Record<string, TrajectoryActionType> = {
+  click: 'click',
+  left_click: 'click',
+  double_click: 'double_click',
+  right_click: 'right_click',
+  move: 'move',
+  move_cursor: 'move',
+  mouse_move: 'move',
+  drag: 'drag',
+  left_click_drag: 'drag',
+  drag_to: 'drag',
+  scroll: 'scroll',
+  type: 'type',
+  type_text: 'type',
+  keypress: 'keypress',
+  key: 'keypress',
+  press_key: 'keypress',
+  hotkey: 'keypress',
+  wait: 'wait',
+  screenshot: 'screenshot',
+  done: 'done',
+  terminate: 'done',
+  finish: 'done',
+};
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const firstString = (raw: RawObject, names: string[]): string | undefined => {
+  const name = names.find((key) => typeof raw[key] === 'string' && raw[key] !== '');
+  return name ? (raw[name] as string) : undefined;
+};
+
+const toNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const point = (raw: RawObject, xName: string, yName: string, pairName?: string) => {
+  const pair = pairName ? raw[pairName] : undefined;
+  if (Array.isArray(pair)) {
+    return { x: toNumber(pair[0]), y: toNumber(pair[1]) };
+  }
+  return { x: toNumber(raw[xName]), y: toNumber(raw[yName]) };
+};
+
+const parseKeys = (raw: RawObject): string[] | undefined => {
+  if (Array.isArray(raw.keys)) return raw.keys.map(String);
+  const key = firstString(raw, ['key', 'keys', 'text']);
+  // "cmd+c" and "ctrl+shift+t" are common single-string spellings of a hotkey
+  return key ? key.split('+').map((part) => part.trim()).filter(Boolean) : undefined;
+};
+
+const parseAction = (raw: unknown): TrajectoryAction => {
+  if (!isObject(raw)) {
+    throw new Error('each action must be an object');
+  }
+  const name = firstString(raw, ['type', 'action', 'command', 'name']);
+  if (!name) {
+    throw new Error('each action needs a "type"');
+  }
+  // Computer interface requests keep their arguments under params
+  const args = isObject(raw.params) ? { ...raw, ...raw.params } : raw;
+  const type = ACTION_TYPES[name.toLowerCase()] ?? 'other';
+  const { x, y } = point(args, 'x', 'y', 'coordinate');
+  const action: TrajectoryAction = { type, name, x, y };
+
+  if (type === 'drag') {
+    const end = point(args, 'to_x', 'to_y', 'end_coordinate');
+    const path = Array.isArray(args.path) ? args.path.filter(isObject) : [];
+    // OpenAI-style drags list the whole path; the overlay only needs its ends
+    if (path.length >= 2) {
+      Object.assign(action, point(path[0], 'x', 'y'), {
+        toX: toNumber(path[path.length - 1].x),
+        toY: toNumber(path[path.length - 1].y),
+      });
+    } else {
+      Object.assign(action, { toX: end.x, toY: end.y });
+    }
+  } else if (type === 'scroll') {
+    action.scrollX = toNumber(args.scroll_x) ?? toNumber(args.dx);
+    action.scrollY = toNumber(args.scroll_y) ?? toNumber(args.dy) ?? toNumber(args.clicks);
+  } else if (type === 'type') {
+    action.text = firstString(args, ['text', 'value']) ?? '';
+  } else if (type === 'keypress') {
+    action.keys = parseKeys(args) ?? [];
+  }
+  return action;
+};
+
+const resolveScreenshot = (value: string, options: ParseOptions): string => {
+  if (/^(data|blob|https?):/.test(value)) return value;
+  // Bare base64, as saved by most agent loops
+  if (/^[A-Za-z0-9+/=\s]{100,}$/.test(value)) return `data:image/png;base64,${value.replace(/\s/g, '')}`;
+  const fileName = value.split('/').pop()!;
+  if (options.files?.[fileName]) return options.files[fileName];
+  if (options.baseUrl) return new URL(value, options.baseUrl).href;
+  throw new Error(`screenshot "${value}" was not found; upload it together with the log`);
+};
+
+const parseStep = (raw: unknown, index: number, options: ParseOptions): TrajectoryStep => {
+  if (!isObject(raw)) {
+    throw new Error('each step must be an object');
+  }
+  const rawActions = Array.isArray(raw.actions) ? raw.actions : raw.action !== undefined ? [raw.action] : [];
+  const screenshot = firstString(raw, ['screenshot', 'image', 'screenshot_url']);
+  return {
+    index,
+    timestamp: firstString(raw, ['timestamp', 'time', 'created_at']),
+    screenshot: screenshot ? resolveScreenshot(screenshot, options) : undefined,
+    reasoning: firstString(raw, ['reasoning', 'thought', 'thinking', 'message']),
+    actions: rawActions.map(parseAction),
+    error: firstString(raw, ['error']),
+  };
+};
+
+const parseScreen = (raw: unknown): Trajectory['screen'] => {
+  if (!isObject(raw)) return undefined;
+  const width = toNumber(raw.width);
+  const height = toNumber(raw.height);
+  return width && height ? { width, height } : undefined;
+};
+
+const parseMetadata = (raw: RawObject) => ({
+  task: firstString(raw, ['task', 'instruction', 'goal']),
+  model: firstString(raw, ['model', 'agent']),
+  screen: parseScreen(raw.screen ?? raw.display),
+});
+
+// Error messages name the step (JSON) or line (JSONL) so bad logs are easy to fix
+const withLocation = (location: string, parse: () => TrajectoryStep): TrajectoryStep => {
+  try {
+    return parse();
+  } catch (error: unknown) {
+    throw new Error(`${location}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const checkSteps = (trajectory: Trajectory): Trajectory => {
+  if (trajectory.steps.length === 0) {
+    throw new Error('The log has no steps');
+  }
+  return trajectory;
+};
+
+const parseJsonLines = (text: string, options: ParseOptions): Trajectory => {
+  let trajectory: Trajectory = { steps: [] };
+  text.split('\n').forEach((line, lineIndex) => {
+    if (!line.trim()) return;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${lineIndex + 1}: not valid JSON`);
+    }
+    if (isObject(raw) && raw.type === 'run') {
+      trajectory = { ...trajectory, ...parseMetadata(raw) };
+    } else {
+      const index = trajectory.steps.length + 1;
+      trajectory.steps.push(withLocation(`Line ${lineIndex + 1}`, () => parseStep(raw, index, options)));
+    }
+  });
+  return trajectory;
+};
+
+/** Parses a JSON or JSONL run log. Throws an Error describing the first problem. */
+export const parseTrajectory = (text: string, options: ParseOptions = {}): Trajectory => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Not a single JSON document; JSONL has one per line
+    return checkSteps(parseJsonLines(text, options));
+  }
+
+  const rawSteps = Array.isArray(data) ? data : isObject(data) && Array.isArray(data.steps) ? data.steps : null;
+  if (!rawSteps) {
+    throw new Error('Expected a list of steps or an object with a "steps" list');
+  }
+  return checkSteps({
+    ...(isObject(data) ? parseMetadata(data) : {}),
+    steps: rawSteps.map((raw, index) => withLocation(`Step ${index + 1}`, () => parseStep(raw, index + 1, options))),
+  });
+};
+
+/** Fetches and parses a log; relative screenshot paths resolve against its URL. */
+export const loadTrajectory = async (url: string): Promise<Trajectory> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Trajectory request failed: ${response.status} ${response.statusText}`);
+  }
+  return parseTrajectory(await response.text(), { baseUrl: new URL(url, window.location.href).href });
+};
+
+/**
+ * One-line description of an action, e.g. Click (452, 598) or Press cmd + c,
+ * in the reader's language.
+ */
+export const describeAction = (
+  action: TrajectoryAction,
+  t: (key: MessageKey, params?: Record<string, string | number>) => string
+): string => {
+  const at = action.x !== undefined && action.y !== undefined ? ` (${action.x}, ${action.y})` : '';
+  switch (action.type) {
+    case 'drag':
+      return t('trajectory.action.drag', { at, x: action.toX ?? '?', y: action.toY ?? '?' });
+    case 'scroll':
+      return t('trajectory.action.scroll', { at, x: action.scrollX ?? 0, y: action.scrollY ?? 0 });
+    case 'type':
+      return t('trajectory.action.type', { text: JSON.stringify(action.text) });
+    case 'keypress':
+      return t('trajectory.action.keypress', { keys: action.keys?.join(' + ') ?? '' });
+    case 'other':
+      return `${action.name}${at}`;
+    default:
+      return t(`trajectory.action.${action.type}`, { at });
+  }
+};
+
+export type StepFilter = 'all' | 'click' | 'type' | 'scroll' | 'error';
+
+const filterActionTypes: Record<Exclude<StepFilter, 'all' | 'error'>, TrajectoryActionType[]> = {
+  click: ['click', 'double_click', 'right_click', 'drag', 'move'],
+  type: ['type', 'keypress'],
+  scroll: ['scroll'],
+};
+
+const stepText = (step: TrajectoryStep) =>
+  [step.reasoning, step.error, ...step.actions.map((action) => `${action.name} ${action.text ?? ''} ${action.keys?.join(' ') ?? ''}`)]
+    .join(' ')
+    .toLowerCase();
+
+/** Steps matching the action filter and containing `query` in their reasoning, actions or error. */
+export const filterSteps = (steps: TrajectoryStep[], filter: StepFilter, query: string): TrajectoryStep[] => {
+  const needle = query.trim().toLowerCase();
+  return steps.filter((step) => {
+    if (filter === 'error' && !step.error) return false;
+    if (filter !== 'all' && filter !== 'error' && !step.actions.some((action) => filterActionTypes[filter].includes(action.type))) {
+      return false;
+    }
+    return !needle || stepText(step).includes(needle);
+  });
+};
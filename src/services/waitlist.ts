@@ -0,0 +1,200 @@
+import { MessageKey } from '../i18n/locales';
+
+export const HARDWARE_OPTIONS = ['M1', 'M2', 'M3', 'M4', 'Other'] as const;
+export type Hardware = typeof HARDWARE_OPTIONS[number];
+
+export interface WaitlistEntry {
+  email: string;
+  useCase: string;
+  hardware: Hardware | '';
+  products: string[];
+}
+
+// Message keys, translated where the errors are shown
+export type WaitlistErrors = Partial<Record<keyof WaitlistEntry, MessageKey>>;
+
+// A backend that accepts waitlist entries; throwing marks the entry for retry
+export interface WaitlistAdapter {
+  name: string;
+  submit: (entry: WaitlistEntry) => Promise<void>;
+  // Needs the visitor (opens a window), so queued entries are not retried in the background
+  interactive?: boolean;
+}
+
+export type SubmitResult = 'submitted' | 'queued';
+
+interface QueuedEntry {
+  entry: WaitlistEntry;
+  queuedAt: number;
+}
+
+const QUEUE_KEY = 'waitlist-queue';
+const TYPEFORM_ID = 'EXQ01spJ';
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const validateWaitlistEntry = (entry: WaitlistEntry): WaitlistErrors => {
+  const errors: WaitlistErrors = {};
+  if (!EMAIL_PATTERN.test(entry.email.trim())) {
+    errors.email = 'waitlist.error.email';
+  }
+  if (entry.useCase.trim().length < 10) {
+    errors.useCase = 'waitlist.error.useCase';
+  }
+  if (!entry.hardware) {
+    errors.hardware = 'waitlist.error.hardware';
+  }
+  if (entry.products.length === 0) {
+    errors.products = 'waitlist.error.products';
+  }
+  return errors;
+};
+
+const postJson = async (url: string, body: unknown) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`Waitlist submission failed: ${response.status} ${response.statusText}`);
+  }
+};
+
+export const createFormspreeAdapter = (formId: string): WaitlistAdapter => ({
+  name: 'formspree',
+  submit: (entry) => postJson(`https://formspree.io/f/${formId}`, {
+    ...entry,
+    products: entry.products.join(', '),
+  }),
+});
+
+export const createWebhookAdapter = (url: string): WaitlistAdapter => ({
+  name: 'webhook',
+  submit: (entry) => postJson(url, { ...entry, submittedAt: new Date().toISOString() }),
+});
+
+// Typeform has no public submission API, so this opens the form with the
+// answers passed as hidden fields for the user to confirm
+export const createTypeformAdapter = (formId: string): WaitlistAdapter => ({
+  name: 'typeform',
+  interactive: true,
+  submit: async (entry) => {
+    const hiddenFields = new URLSearchParams({
+      email: entry.email,
+      use_case: entry.useCase,
+      hardware: entry.hardware,
+      products: entry.products.join(','),
+    });
+    const opened = window.open(`https://form.typeform.com/to/${formId}#${hiddenFields.toString()}`, '_blank');
+    if (!opened) {
+      throw new Error('The Typeform window was blocked');
+    }
+    opened.opener = null;
+  },
+});
+
+// Used in development and tests when a provider is missing its endpoint: every
+// submission fails, so entries stay queued instead of being reported as sent
+export const createUnconfiguredAdapter = (reason: string): WaitlistAdapter => ({
+  name: 'unconfigured',
+  submit: async () => {
+    throw new Error(reason);
+  },
+});
+
+// Local stub for development
+export const createConsoleAdapter = (): WaitlistAdapter => ({
+  name: 'console',
+  submit: async (entry) => {
+    console.info('Waitlist submission (console adapter):', entry);
+  },
+});
+
+/**
+ * Picks the adapter from REACT_APP_WAITLIST_PROVIDER and
+ * REACT_APP_WAITLIST_ENDPOINT (a Formspree form ID, webhook URL or Typeform
+ * ID). Without configuration, development builds log to the console and
+ * production builds fall back to the existing Typeform.
+ */
+export const getWaitlistAdapter = (): WaitlistAdapter => {
+  const provider = process.env.REACT_APP_WAITLIST_PROVIDER;
+  const endpoint = process.env.REACT_APP_WAITLIST_ENDPOINT ?? '';
+  const isProduction = process.env.NODE_ENV === 'production';
+
+  if ((provider === 'formspree' || provider === 'webhook') && !endpoint) {
+    return isProduction
+      ? createTypeformAdapter(TYPEFORM_ID)
+      : createUnconfiguredAdapter(`REACT_APP_WAITLIST_ENDPOINT is required for the ${provider} provider`);
+  }
+
+  switch (provider) {
+    case 'formspree':
+      return createFormspreeAdapter(endpoint);
+    case 'webhook':
+      return createWebhookAdapter(endpoint);
+    case 'typeform':
+      return createTypeformAdapter(endpoint || TYPEFORM_ID);
+    case 'console':
+      return createConsoleAdapter();
+    default:
+      return isProduction ? createTypeformAdapter(TYPEFORM_ID) : createConsoleAdapter();
+  }
+};
+
+const readQueue = (): QueuedEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(QUEUE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeQueue = (queue: QueuedEntry[]) => {
+  try {
+    if (queue.length === 0) {
+      localStorage.removeItem(QUEUE_KEY);
+    } else {
+      localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    }
+  } catch {
+    // Nothing more we can do without storage
+  }
+};
+
+/** Submits an entry, queueing it in localStorage for a later retry if the backend fails. */
+export const submitWaitlistEntry = async (
+  entry: WaitlistEntry,
+  adapter: WaitlistAdapter = getWaitlistAdapter()
+): Promise<SubmitResult> => {
+  try {
+    await adapter.submit(entry);
+    return 'submitted';
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Error submitting waitlist entry:', { adapter: adapter.name, message });
+    writeQueue([...readQueue(), { entry, queuedAt: Date.now() }]);
+    return 'queued';
+  }
+};
+
+let isFlushing = false;
+
+/** Retries queued entries in order, keeping any that fail again. Interactive adapters are skipped. */
+export const flushWaitlistQueue = async (adapter: WaitlistAdapter = getWaitlistAdapter()): Promise<number> => {
+  const queue = readQueue();
+  if (isFlushing || queue.length === 0 || adapter.interactive) return 0;
+
+  isFlushing = true;
+  const remaining: QueuedEntry[] = [];
+  for (const queued of queue) {
+    try {
+      await adapter.submit(queued.entry);
+    } catch {
+      remaining.push(queued);
+    }
+  }
+  // Keep anything queued while this flush was running
+  writeQueue([...remaining, ...readQueue().slice(queue.length)]);
+  isFlushing = false;
+  return queue.length - remaining.length;
+};
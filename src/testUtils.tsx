@@ -0,0 +1,12 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import I18nProvider from './components/I18nProvider';
+
+// Renders UI with the router and i18n context the site's components expect
+export const renderWithProviders = (ui: React.ReactElement, { route = '/' }: { route?: string } = {}) =>
+  render(
+    <MemoryRouter initialEntries={[route]}>
+      <I18nProvider>{ui}</I18nProvider>
+    </MemoryRouter>
+  );
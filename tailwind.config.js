@@ -0,0 +1,39 @@
+// Semantic colour tokens are CSS variables (src/index.css) that flip with the
+// `dark` class, so components rarely need a `dark:` variant for plain colours.
+const token = (name) => `rgb(var(--color-${name}) / <alpha-value>)`;
+
+/** @type {import('tailwindcss').Config} */
+module.exports = {
+  content: ['./src/**/*.{ts,tsx}', './public/index.html'],
+  darkMode: 'class',
+  theme: {
+    extend: {
+      colors: {
+        surface: {
+          DEFAULT: token('surface'),
+          raised: token('surface-raised'),
+          muted: token('surface-muted'),
+        },
+        line: {
+          DEFAULT: token('line'),
+          strong: token('line-strong'),
+        },
+        fg: {
+          DEFAULT: token('fg'),
+          muted: token('fg-muted'),
+          subtle: token('fg-subtle'),
+        },
+        link: {
+          DEFAULT: token('link'),
+          hover: token('link-hover'),
+        },
+        inverse: {
+          DEFAULT: token('inverse'),
+          hover: token('inverse-hover'),
+          fg: token('inverse-fg'),
+        },
+      },
+    },
+  },
+  plugins: [],
+};